@@ -0,0 +1,137 @@
+/**
+ * Train Genre Model - Fits the genre classifier's weights to labelled feature dumps
+ * Usage: npm run train:genre -- [--out file] [--features a,b,...] dump.json [dump.json ...]
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+
+const MODEL_VERSION = 1;
+const DUMP_VERSION = 1;
+const DEFAULT_OUT = 'src/models/genre-model.json';
+/** Gradient steps, learning rate and L2 penalty; the data sets are small enough for full batches */
+const ITERATIONS = 2000;
+const LEARNING_RATE = 0.5;
+const L2 = 0.001;
+/**
+ * Descriptors trained on unless --features says otherwise: the MFCCs and the spectral shape, which
+ * describe timbre, rather than the 0-1 levels the app derives from them
+ */
+const DEFAULT_DESCRIPTORS = /^(mfcc\d+|centroid|rolloff|flatness|flux|crest|bands\.\w+)\.(mean|std)$/;
+
+const parseArguments = (args) => {
+  const options = { out: DEFAULT_OUT, features: null, dumps: [] };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--out') options.out = args[++i];
+    else if (args[i] === '--features') options.features = args[++i].split(',');
+    else options.dumps.push(args[i]);
+  }
+  return options;
+};
+
+const loadDumps = (paths) =>
+  paths.map((path) => {
+    const dump = JSON.parse(readFileSync(path, 'utf8'));
+    if (dump.version !== DUMP_VERSION) {
+      throw new Error(`${path}: dump version ${dump.version} is not supported; expected ${DUMP_VERSION}.`);
+    }
+    if (!dump.label || !Array.isArray(dump.features) || !Array.isArray(dump.vectors)) {
+      throw new Error(`${path}: not a genre feature dump.`);
+    }
+    return dump;
+  });
+
+/** Timbre features every dump provides, in the order of the first, or a chosen list of any features they share */
+const commonFeatures = (dumps, chosen) => {
+  const shared = dumps[0].features.filter((name) => dumps.every((dump) => dump.features.includes(name)));
+  if (!chosen) {
+    const timbre = shared.filter((name) => DEFAULT_DESCRIPTORS.test(name));
+    if (!timbre.some((name) => name.startsWith('mfcc'))) throw new Error('The dumps hold no MFCC features to train on.');
+    return timbre;
+  }
+
+  const missing = chosen.find((name) => !shared.includes(name));
+  if (missing) throw new Error(`Not every dump provides "${missing}".`);
+  return chosen;
+};
+
+const softmax = (scores) => {
+  const top = Math.max(...scores);
+  const exponentials = scores.map((score) => Math.exp(score - top));
+  const total = exponentials.reduce((sum, value) => sum + value, 0);
+  return exponentials.map((value) => value / total);
+};
+
+/** Says which recordings the weights were fitted to, so the model file can be traced back to its data */
+const describeSource = (paths, dumps) => {
+  const recordings = dumps.map((dump, i) => `${paths[i]} (${dump.label}, ${dump.vectors.length} summaries)`);
+  return `Fitted by npm run train:genre on ${new Date().toISOString().slice(0, 10)} to ${recordings.join(', ')}.`;
+};
+
+const train = (dumps, features) => {
+  const genres = [...new Set(dumps.map((dump) => dump.label))];
+  const rows = [];
+  const labels = [];
+  for (const dump of dumps) {
+    const columns = features.map((name) => dump.features.indexOf(name));
+    for (const vector of dump.vectors) {
+      rows.push(columns.map((column) => vector[column]));
+      labels.push(genres.indexOf(dump.label));
+    }
+  }
+  if (rows.length === 0) throw new Error('The dumps hold no feature vectors.');
+
+  const mean = features.map((_, f) => rows.reduce((sum, row) => sum + row[f], 0) / rows.length);
+  const scale = features.map((_, f) => {
+    const variance = rows.reduce((sum, row) => sum + (row[f] - mean[f]) ** 2, 0) / rows.length;
+    return Math.sqrt(variance) || 1;
+  });
+  const inputs = rows.map((row) => row.map((value, f) => (value - mean[f]) / scale[f]));
+
+  const weights = genres.map(() => features.map(() => 0));
+  const bias = genres.map(() => 0);
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const weightGradient = genres.map(() => features.map(() => 0));
+    const biasGradient = genres.map(() => 0);
+
+    inputs.forEach((input, n) => {
+      const scores = weights.map((row, g) => row.reduce((sum, weight, f) => sum + weight * input[f], bias[g]));
+      softmax(scores).forEach((probability, g) => {
+        const error = probability - (labels[n] === g ? 1 : 0);
+        biasGradient[g] += error;
+        input.forEach((value, f) => {
+          weightGradient[g][f] += error * value;
+        });
+      });
+    });
+
+    genres.forEach((_, g) => {
+      bias[g] -= (LEARNING_RATE * biasGradient[g]) / inputs.length;
+      features.forEach((_, f) => {
+        weights[g][f] -= LEARNING_RATE * (weightGradient[g][f] / inputs.length + L2 * weights[g][f]);
+      });
+    });
+  }
+
+  const correct = inputs.filter((input, n) => {
+    const scores = weights.map((row, g) => row.reduce((sum, weight, f) => sum + weight * input[f], bias[g]));
+    return scores.indexOf(Math.max(...scores)) === labels[n];
+  }).length;
+
+  return { model: { version: MODEL_VERSION, source: '', genres, features, mean, scale, weights, bias }, accuracy: correct / inputs.length };
+};
+
+const options = parseArguments(process.argv.slice(2));
+if (options.dumps.length === 0) {
+  console.error('Usage: npm run train:genre -- [--out file] [--features a,b,...] dump.json [dump.json ...]');
+  process.exit(1);
+}
+
+const dumps = loadDumps(options.dumps);
+const { model, accuracy } = train(dumps, commonFeatures(dumps, options.features));
+model.source = describeSource(options.dumps, dumps);
+writeFileSync(options.out, `${JSON.stringify(model, null, 2)}\n`);
+console.log(
+  `Trained on ${dumps.reduce((sum, dump) => sum + dump.vectors.length, 0)} summaries of ${model.genres.join(', ')}; ` +
+    `${Math.round(accuracy * 100)}% of them classified correctly. Wrote ${options.out}.`
+);
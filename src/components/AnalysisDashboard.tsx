@@ -0,0 +1,227 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { Area, AreaChart, Bar, BarChart, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { AnalysisPipeline } from "@/lib/analysisPipeline";
+import { AudioFeatures, FREQUENCY_BANDS, FrequencyBands } from "@/lib/musicBrain";
+import { ColorPalette } from "@/lib/colorBrain";
+import { PITCH_CLASSES } from "@/lib/keyDetector";
+import { MoodName } from "@/lib/moodModel";
+
+interface AnalysisDashboardProps {
+  pipeline: AnalysisPipeline;
+  palette: ColorPalette | null;
+  className?: string;
+}
+
+/** Seconds of onsets, beats and chroma on screen */
+const HISTORY_SECONDS = 10;
+/** Mood moves over phrases rather than beats, so its timeline reaches further back */
+const MOOD_HISTORY_SECONDS = 60;
+/** Redraws per second are kept low; charts re-rendering at the frame rate would starve the visuals */
+const REFRESH_MS = 250;
+const SPECTRUM_POINTS = 64;
+const CHROMA_COLUMNS = 40;
+
+const BAND_KEYS = Object.keys(FREQUENCY_BANDS) as (keyof FrequencyBands)[];
+
+const SPECTRUM_CONFIG = { level: { label: "Level", color: "hsl(var(--primary))" } } satisfies ChartConfig;
+const BAND_CONFIG = {
+  raw: { label: "Raw", color: "hsl(var(--secondary))" },
+  smoothed: { label: "Smoothed", color: "hsl(var(--accent))" }
+} satisfies ChartConfig;
+const ONSET_CONFIG = { onset: { label: "Onset", color: "hsl(var(--primary))" } } satisfies ChartConfig;
+const MOOD_CONFIG = {
+  valence: { label: "Valence", color: "hsl(var(--accent))" },
+  arousal: { label: "Arousal", color: "hsl(var(--primary))" }
+} satisfies ChartConfig;
+
+interface HistoryFrame {
+  /** performance.now() when the frame arrived */
+  at: number;
+  onset: number;
+  chroma: number[];
+}
+
+interface MoodPoint {
+  at: number;
+  valence: number;
+  arousal: number;
+}
+
+interface DashboardView {
+  spectrum: { bin: number; level: number }[];
+  bands: { band: string; raw: number; smoothed: number }[];
+  /** Times are seconds before now, so the newest data sits at 0 */
+  onsets: { t: number; onset: number }[];
+  beats: number[];
+  /** Columns oldest first, one level per pitch class in each */
+  chroma: number[][];
+  moods: { t: number; valence: number; arousal: number }[];
+  mood: MoodName | null;
+}
+
+const EMPTY_VIEW: DashboardView = { spectrum: [], bands: [], onsets: [], beats: [], chroma: [], moods: [], mood: null };
+
+const Heading = ({ children }: { children: ReactNode }) => (
+  <div className="mb-1 font-medium text-foreground/80">{children}</div>
+);
+
+/** Live view of what the brains hear, for tuning them: one refresh shows the last few seconds of every stage */
+export const AnalysisDashboard = ({ pipeline, palette, className }: AnalysisDashboardProps) => {
+  const framesRef = useRef<HistoryFrame[]>([]);
+  const beatsRef = useRef<number[]>([]);
+  const moodsRef = useRef<MoodPoint[]>([]);
+  const latestRef = useRef<AudioFeatures | null>(null);
+  const [view, setView] = useState<DashboardView>(EMPTY_VIEW);
+
+  useEffect(() => {
+    const forget = (cutoff: number) => {
+      framesRef.current = framesRef.current.filter((frame) => frame.at >= cutoff);
+      beatsRef.current = beatsRef.current.filter((at) => at >= cutoff);
+    };
+
+    const unsubscribeFrames = pipeline.onAnalysis((features) => {
+      const now = performance.now();
+      latestRef.current = features;
+      framesRef.current.push({ at: now, onset: features.onset, chroma: features.chroma });
+    });
+    const unsubscribeBeats = pipeline.onBeat(() => {
+      beatsRef.current.push(performance.now());
+    });
+
+    const refresh = () => {
+      const now = performance.now();
+      forget(now - HISTORY_SECONDS * 1000);
+      const ago = (at: number) => (at - now) / 1000;
+
+      const features = latestRef.current;
+      if (features) {
+        moodsRef.current.push({ at: now, valence: features.valence, arousal: features.arousal });
+        moodsRef.current = moodsRef.current.filter((point) => point.at >= now - MOOD_HISTORY_SECONDS * 1000);
+      }
+
+      const display = pipeline.sample(now).spectrum;
+      const group = Math.max(1, Math.floor(display.length / SPECTRUM_POINTS));
+      const spectrum = Array.from({ length: Math.floor(display.length / group) }, (_, bin) => ({
+        bin,
+        level: display.slice(bin * group, (bin + 1) * group).reduce((sum, value) => sum + value, 0) / group
+      }));
+
+      const frames = framesRef.current;
+      const step = Math.max(1, frames.length / CHROMA_COLUMNS);
+      const chroma = Array.from({ length: Math.min(CHROMA_COLUMNS, frames.length) }, (_, i) => frames[Math.floor(i * step)].chroma);
+
+      setView({
+        spectrum,
+        bands: features
+          ? BAND_KEYS.map((band) => ({ band, raw: features.bands[band], smoothed: features.smoothed.bands[band] }))
+          : [],
+        onsets: frames.map((frame) => ({ t: ago(frame.at), onset: frame.onset })),
+        beats: beatsRef.current.map(ago),
+        chroma,
+        moods: moodsRef.current.map((point) => ({ t: ago(point.at), valence: point.valence, arousal: point.arousal })),
+        mood: features?.mood ?? null
+      });
+    };
+
+    const timer = setInterval(refresh, REFRESH_MS);
+
+    return () => {
+      clearInterval(timer);
+      unsubscribeFrames();
+      unsubscribeBeats();
+    };
+  }, [pipeline]);
+
+  const swatches = palette
+    ? [palette.primary, palette.secondary, palette.accent, palette.glow, palette.background, ...palette.particles]
+    : [];
+
+  return (
+    <div
+      className={cn(
+        "w-80 space-y-3 overflow-y-auto rounded bg-glass-bg/80 p-3 text-xs text-muted-foreground backdrop-blur-sm",
+        className
+      )}
+    >
+      <div>
+        <Heading>Spectrum</Heading>
+        <ChartContainer config={SPECTRUM_CONFIG} className="aspect-auto h-20 w-full">
+          <AreaChart data={view.spectrum} margin={{ top: 0, right: 0, bottom: 0, left: 0 }}>
+            <YAxis domain={[0, 1]} hide />
+            <Area dataKey="level" type="monotone" stroke="var(--color-level)" fill="var(--color-level)" fillOpacity={0.4} isAnimationActive={false} />
+          </AreaChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <Heading>Bands (raw / smoothed)</Heading>
+        <ChartContainer config={BAND_CONFIG} className="aspect-auto h-24 w-full">
+          <BarChart data={view.bands} margin={{ top: 0, right: 0, bottom: 0, left: 0 }}>
+            <XAxis dataKey="band" tickLine={false} axisLine={false} interval={0} fontSize={9} />
+            <YAxis domain={[0, 1]} hide />
+            <Bar dataKey="raw" fill="var(--color-raw)" isAnimationActive={false} />
+            <Bar dataKey="smoothed" fill="var(--color-smoothed)" isAnimationActive={false} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <Heading>Onset envelope and beats</Heading>
+        <ChartContainer config={ONSET_CONFIG} className="aspect-auto h-20 w-full">
+          <LineChart data={view.onsets} margin={{ top: 0, right: 0, bottom: 0, left: 0 }}>
+            <XAxis dataKey="t" type="number" domain={[-HISTORY_SECONDS, 0]} hide />
+            <YAxis hide />
+            {view.beats.map((t, i) => (
+              <ReferenceLine key={i} x={t} stroke="hsl(var(--accent))" strokeOpacity={0.6} />
+            ))}
+            <Line dataKey="onset" type="linear" stroke="var(--color-onset)" dot={false} strokeWidth={1} isAnimationActive={false} />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <Heading>Chroma</Heading>
+        <div className="flex gap-1">
+          <div className="flex flex-col-reverse justify-between text-[8px] leading-none">
+            {PITCH_CLASSES.map((name) => (
+              <span key={name}>{name}</span>
+            ))}
+          </div>
+          <div className="flex h-24 flex-1 gap-px">
+            {view.chroma.map((column, x) => (
+              <div key={x} className="flex flex-1 flex-col-reverse gap-px">
+                {column.map((level, pitchClass) => (
+                  <div key={pitchClass} className="flex-1 bg-primary" style={{ opacity: level }} />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <Heading>Mood{view.mood && `: ${view.mood}`}</Heading>
+        <ChartContainer config={MOOD_CONFIG} className="aspect-auto h-20 w-full">
+          <LineChart data={view.moods} margin={{ top: 0, right: 0, bottom: 0, left: 0 }}>
+            <XAxis dataKey="t" type="number" domain={[-MOOD_HISTORY_SECONDS, 0]} hide />
+            <YAxis domain={[-1, 1]} hide />
+            <ReferenceLine y={0} stroke="hsl(var(--border))" />
+            <Line dataKey="valence" type="monotone" stroke="var(--color-valence)" dot={false} isAnimationActive={false} />
+            <Line dataKey="arousal" type="monotone" stroke="var(--color-arousal)" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <Heading>Palette</Heading>
+        <div className="flex flex-wrap gap-1">
+          {swatches.map((color, i) => (
+            <div key={i} className="h-4 w-4 rounded-sm border border-border/50" style={{ background: color }} title={color} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import { useRef, useState } from "react";
+import { Circle, Download, FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { AnalysisPipeline } from "@/lib/analysisPipeline";
+import { toast } from "@/hooks/use-toast";
+import { AnalysisExport, ExportFormat, parseAnalysisExport, toCsv, toJson } from "@/lib/analysisExport";
+import { formatKey } from "@/lib/keyDetector";
+import { MOOD_NAMES } from "@/lib/moodModel";
+
+interface AnalysisExporterProps {
+  pipeline: AnalysisPipeline;
+  className?: string;
+}
+
+const FORMATS: ExportFormat[] = ["json", "csv"];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv"
+};
+
+const saveExport = (exported: AnalysisExport, format: ExportFormat) => {
+  const text = format === "json" ? toJson(exported) : toCsv(exported);
+  const url = URL.createObjectURL(new Blob([text], { type: MIME_TYPES[format] }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `analysis-${Date.now()}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** One line on what an export says about its track, for checking a file before rendering from it */
+const describeExport = ({ summary, frames }: AnalysisExport) => {
+  const mood = MOOD_NAMES.reduce((best, name) => (summary.moods[name] > summary.moods[best] ? name : best));
+  const sections = summary.sections.map((section) => section.label).join(" ");
+  return `${frames.length} frames over ${summary.duration.toFixed(1)} s, ${Math.round(summary.averageTempo)} BPM in ${formatKey(summary.key)}, mostly ${mood}${sections ? `, sections ${sections}` : ""}`;
+};
+
+const openExport = async (file: File) => {
+  try {
+    const exported = parseAnalysisExport(await file.text());
+    toast({ title: file.name, description: describeExport(exported) });
+  } catch (error) {
+    toast({
+      variant: "destructive",
+      title: "Could not read the analysis export",
+      description: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+/**
+ * Downloads what the Music Brain made of the audio: a prepared file's whole analysis at once,
+ * or for live sources the frames captured between two clicks, and opens earlier exports to summarise them
+ */
+export const AnalysisExporter = ({ pipeline, className }: AnalysisExporterProps) => {
+  const [format, setFormat] = useState<ExportFormat>("json");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const captured = pipeline.capturedFrames;
+
+  const exportAnalysis = () => {
+    if (captured !== null) {
+      const exported = pipeline.stopCapture();
+      if (exported && exported.frames.length > 0) saveExport(exported, format);
+      return;
+    }
+
+    const prepared = pipeline.exportPrepared();
+    if (prepared) {
+      saveExport(prepared, format);
+      return;
+    }
+
+    pipeline.startCapture();
+  };
+
+  const label = captured !== null ? `Save (${captured})` : pipeline.isPrepared ? "Export" : "Capture";
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FORMATS.map((option) => (
+            <SelectItem key={option} value={option} className="text-xs">
+              {option.toUpperCase()}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 shrink-0 text-xs"
+        onClick={exportAnalysis}
+        title="Download the per-frame analysis with a summary of the track"
+      >
+        {captured === null && !pipeline.isPrepared ? (
+          <Circle className="h-3 w-3 mr-1" />
+        ) : (
+          <Download className="h-3 w-3 mr-1" />
+        )}
+        {label}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={() => fileInputRef.current?.click()}
+        aria-label="Open an analysis export"
+        title="Open a JSON or CSV analysis export and show its summary"
+      >
+        <FileUp className="h-3 w-3" />
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) openExport(file);
+          event.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
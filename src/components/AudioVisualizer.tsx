@@ -1,109 +1,240 @@
 import { useEffect, useRef, useState } from "react";
+import { Activity, Hand, VolumeX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AnalysisDashboard } from "@/components/AnalysisDashboard";
+import { AnalysisExporter } from "@/components/AnalysisExporter";
+import { GenreRecorder } from "@/components/GenreRecorder";
+import { Goniometer } from "@/components/Goniometer";
+import { MoodMap } from "@/components/MoodMap";
 import { cn } from "@/lib/utils";
-import { MusicBrain, AudioFeatures, MusicContext } from "@/lib/musicBrain";
-import { ColorBrain, ColorPalette } from "@/lib/colorBrain";
+import { AudioFeatures, FrequencyBands, MusicContext } from "@/lib/musicBrain";
+import { formatKey } from "@/lib/keyDetector";
+import { ChordQuality, formatChord } from "@/lib/chordRecognizer";
+import { ColorBrain, ColorPalette, HueMapping } from "@/lib/colorBrain";
+import { AudioSource, AudioSourceError, AudioSourceErrorKind, toAudioSourceError } from "@/lib/audioSource";
+import { AnalysisPipeline } from "@/lib/analysisPipeline";
+import { AudioFileSource } from "@/lib/fileSource";
+import { PERCUSSION_KINDS, PercussionKind } from "@/lib/onsetDetector";
+import { EnvelopeOverrides } from "@/lib/envelopeFollower";
 
 interface AudioVisualizerProps {
   isPlaying: boolean;
   intensity: number;
+  /** Gain on top of loudness normalization; 1 analyses every source at the same loudness */
+  sensitivity?: number;
   mode: "sacred" | "cosmic" | "flow" | "pulse" | "trippy" | "ocean" | "neural" | "galaxy";
+  hueMapping?: HueMapping;
+  source: AudioSource;
+  /** Called when playback switches between a file's prepared analysis and live analysis */
+  onPreparedChange?: (prepared: boolean) => void;
   className?: string;
 }
 
-export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: AudioVisualizerProps) => {
+const SOURCE_ERROR_TITLES: Record<AudioSourceErrorKind, string> = {
+  'permission-denied': 'Audio access blocked',
+  'no-device': 'No audio input found',
+  'no-audio': 'Shared screen has no audio',
+  'unsupported': 'Audio input not supported',
+  'decode-failed': 'Audio could not be decoded',
+  'unknown': 'Audio input unavailable'
+};
+
+const SILENT_SPECTRUM: number[] = new Array(128).fill(0);
+const STATUS_UPDATE_INTERVAL = 250;
+/** How far ahead the status overlay names the next section of a prepared file, in seconds */
+const NEXT_SECTION_SECONDS = 30;
+const BEAT_PULSE_DECAY_MS = 150;
+/** A drop's burst fades far slower than a beat's pulse */
+const DROP_BURST_DECAY_MS = 600;
+/** How far the scene draws in at the peak of a build-up, and how far a drop throws it out */
+const BUILD_UP_SQUEEZE = 0.15;
+const DROP_BURST_SCALE = 0.3;
+
+/** Spatial frequency of the flow mode's main wave, and the sung pitch at which it is kept */
+const FLOW_WAVE_NUMBER = 0.02;
+const FLOW_REFERENCE_HZ = 220;
+
+/**
+ * How each mode's smoothed features move, where it differs from the defaults: pulse snaps to peaks
+ * and holds them, sacred geometry breathes slowly, flow's wave count settles instead of flickering
+ */
+const MODE_ENVELOPES: Partial<Record<AudioVisualizerProps["mode"], EnvelopeOverrides>> = {
+  pulse: { energy: { attackMs: 0, releaseMs: 250, holdMs: 80 } },
+  sacred: { energy: { releaseMs: 800 }, dynamics: { releaseMs: 1000 } },
+  flow: { harmony: { attackMs: 300, releaseMs: 1500 } }
+};
+
+/** How far, in pixels, a fully panned band pulls its part of a mirrored figure off centre in a fully wide mix */
+const STEREO_SHIFT = 80;
+/** Sideways lean of the galaxy's arms per unit of balance, as a share of each point's radius */
+const GALAXY_LEAN = 1.5;
+/** Bands in ascending order, for spreading a figure's parts across the spectrum */
+const BAND_ORDER: (keyof FrequencyBands)[] = ["subBass", "bass", "lowMid", "mid", "highMid", "presence", "brilliance"];
+
+/** Sacred geometry petals per chord quality; the figure only re-forms when the harmony moves */
+const SACRED_SEGMENTS: Record<ChordQuality, number> = {
+  maj: 6,
+  min: 8,
+  '7': 7,
+  sus2: 5,
+  sus4: 5,
+  dim: 9
+};
+
+/** 1 at the moment of a beat or hit, fading towards 0 afterwards */
+const pulseSince = (at: number, decayMs = BEAT_PULSE_DECAY_MS) => Math.exp(-(performance.now() - at) / decayMs);
+
+interface PercussionHit {
+  at: number;
+  strength: number;
+}
+
+const hitPulse = (hit: PercussionHit) => pulseSince(hit.at) * hit.strength;
+
+/** Sideways offset for the part of a figure drawn from one band: towards the band's side, and only as far as the mix is wide */
+const stereoShift = (features: AudioFeatures | null | undefined, band: keyof FrequencyBands) =>
+  features ? features.stereo.panning[band] * features.stereo.width * STEREO_SHIFT : 0;
+
+export const AudioVisualizer = ({
+  isPlaying,
+  intensity,
+  sensitivity = 1,
+  mode,
+  hueMapping = "genre",
+  source,
+  onPreparedChange,
+  className
+}: AudioVisualizerProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
-  const musicBrainRef = useRef(new MusicBrain());
   const colorBrainRef = useRef(new ColorBrain());
+  const paletteRef = useRef<ColorPalette | null>(null);
+  const intensityRef = useRef(intensity);
+  const lastStatusUpdateRef = useRef(0);
+  const lastBeatAtRef = useRef(-Infinity);
+  const lastBarAtRef = useRef(-Infinity);
+  const lastDropAtRef = useRef(-Infinity);
+  const chordAngleRef = useRef(0);
+  const waveNumberRef = useRef(FLOW_WAVE_NUMBER);
+  const lastHitsRef = useRef<Record<PercussionKind, PercussionHit>>({
+    kick: { at: -Infinity, strength: 0 },
+    snare: { at: -Infinity, strength: 0 },
+    hat: { at: -Infinity, strength: 0 }
+  });
+  // Made by an effect rather than on first render, so a remount (as StrictMode does) never keeps a disposed pipeline
+  const [pipeline, setPipeline] = useState<AnalysisPipeline | null>(null);
   
-  const [audioData, setAudioData] = useState<number[]>(new Array(128).fill(0));
-  const [currentPalette, setCurrentPalette] = useState<ColorPalette | null>(null);
   const [audioFeatures, setAudioFeatures] = useState<AudioFeatures | null>(null);
   const [musicContext, setMusicContext] = useState<MusicContext | null>(null);
+  const [inputError, setInputError] = useState<AudioSourceError | null>(null);
+  const [showDashboard, setShowDashboard] = useState(false);
+  const [prepared, setPrepared] = useState(false);
 
-  // Simulate intelligent audio analysis
   useEffect(() => {
-    if (!isPlaying) return;
+    intensityRef.current = intensity;
+  }, [intensity]);
 
-    const simulateIntelligentAudio = () => {
-      const time = Date.now() * 0.001;
-      
-      // Generate more sophisticated audio simulation based on mode
-      const newData = audioData.map((_, i) => {
-        const baseFreq = (i / 128) * Math.PI * 2;
-        let amplitude = 0;
-        
-        // Mode-specific audio generation
-        switch (mode) {
-          case 'sacred':
-            // Sacred geometry - harmonic frequencies
-            amplitude = Math.sin(time * 1.2 + baseFreq) * Math.sin(time * 0.3) * 0.7;
-            if (i % 12 === 0) amplitude *= 1.5; // Emphasize harmonic intervals
-            break;
-            
-          case 'cosmic':
-            // Cosmic - spacey, ethereal sounds
-            amplitude = Math.sin(time * 0.8 + baseFreq * 1.5) * Math.cos(time * 0.2) * 0.6;
-            amplitude += Math.random() * 0.1; // Add some cosmic noise
-            break;
-            
-          case 'flow':
-            // Flowing waves - smooth transitions
-            amplitude = Math.sin(time * 1.0 + baseFreq) * Math.sin(time * 0.4) * 0.5;
-            break;
-            
-          case 'pulse':
-            // Rhythmic pulses
-            amplitude = Math.sin(time * 2.0 + baseFreq) * Math.sin(time * 0.6) * 0.8;
-            if (Math.floor(time * 2) % 2 === 0) amplitude *= 1.3; // Beat emphasis
-            break;
-            
-          case 'trippy':
-            // Psychedelic patterns
-            amplitude = Math.sin(time * 1.7 + baseFreq * 3) * Math.cos(time * 0.7) * 0.9;
-            amplitude += Math.sin(time * 4 + i * 0.1) * 0.2;
-            break;
-            
-          case 'ocean':
-            // Ocean-like waves
-            amplitude = Math.sin(time * 0.5 + baseFreq * 0.8) * Math.sin(time * 0.1) * 0.4;
-            amplitude += Math.sin(time * 0.3 + baseFreq * 2) * 0.2;
-            break;
-            
-          case 'neural':
-            // Neural network patterns
-            amplitude = Math.sin(time * 1.5 + baseFreq * 2) * 0.6;
-            if (Math.random() > 0.9) amplitude *= 2; // Neural spikes
-            break;
-            
-          case 'galaxy':
-            // Galactic, vast soundscapes
-            amplitude = Math.sin(time * 0.7 + baseFreq * 1.2) * Math.cos(time * 0.15) * 0.7;
-            amplitude += Math.sin(time * 3 + baseFreq * 0.5) * 0.3;
-            break;
-            
-          default:
-            amplitude = Math.sin(time * 1 + baseFreq) * 0.5;
+  useEffect(() => {
+    const created = new AnalysisPipeline();
+    setPipeline(created);
+
+    return () => created.dispose();
+  }, []);
+
+  useEffect(() => {
+    pipeline?.setSensitivity(sensitivity);
+  }, [sensitivity, pipeline]);
+
+  useEffect(() => {
+    colorBrainRef.current.setHueMapping(hueMapping);
+  }, [hueMapping]);
+
+  useEffect(() => {
+    pipeline?.setEnvelopes(MODE_ENVELOPES[mode] ?? {});
+  }, [mode, pipeline]);
+
+  // Colors follow every analysis frame; the status overlay only needs a few updates per second
+  useEffect(() => {
+    if (!pipeline) return;
+
+    pipeline.onFrame = (features, context) => {
+      paletteRef.current = colorBrainRef.current.generatePalette(features, context);
+
+      const now = performance.now();
+      if (context.beatDrop) lastDropAtRef.current = now;
+      for (const kind of PERCUSSION_KINDS) {
+        if (context.percussion[kind] > 0) lastHitsRef.current[kind] = { at: now, strength: context.percussion[kind] };
+      }
+
+      if (now - lastStatusUpdateRef.current >= STATUS_UPDATE_INTERVAL) {
+        lastStatusUpdateRef.current = now;
+        setAudioFeatures(features);
+        setMusicContext(context);
+        setPrepared(pipeline.isPrepared);
+      }
+    };
+
+    return () => {
+      pipeline.onFrame = null;
+    };
+  }, [pipeline]);
+
+  // Beat-synced accents come from the tracker's events rather than from raw levels
+  useEffect(() => {
+    if (!pipeline) return;
+
+    const unsubscribeBeat = pipeline.onBeat(() => {
+      lastBeatAtRef.current = performance.now();
+    });
+    const unsubscribeBar = pipeline.onBar(() => {
+      lastBarAtRef.current = performance.now();
+    });
+
+    return () => {
+      unsubscribeBeat();
+      unsubscribeBar();
+    };
+  }, [pipeline]);
+
+  useEffect(() => {
+    onPreparedChange?.(prepared);
+  }, [prepared, onPreparedChange]);
+
+  // A file is analysed as soon as it loads, so the pre-pass is done, or well under way, by the time it plays
+  useEffect(() => {
+    if (!pipeline || !(source instanceof AudioFileSource)) return;
+
+    pipeline.prepare(source);
+    return source.onLoad(() => pipeline.prepare(source));
+  }, [source, pipeline]);
+
+  // Feed whichever source is selected into the analysis pipeline while playing
+  useEffect(() => {
+    if (!isPlaying || !pipeline) return;
+
+    let cancelled = false;
+
+    source.start()
+      .then(() => {
+        if (cancelled) {
+          source.stop();
+          return;
         }
-        
-        return Math.max(0, amplitude * intensity);
+
+        pipeline.start(source);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setInputError(toAudioSourceError(error, 'Could not start the audio input.'));
       });
-      
-      setAudioData(newData);
-      
-      // Analyze with Music Brain
-      const analysis = musicBrainRef.current.analyzeAudio(newData);
-      setAudioFeatures(analysis.features);
-      setMusicContext(analysis.context);
-      
-      // Generate colors with Color Brain
-      const palette = colorBrainRef.current.generatePalette(analysis.features, analysis.context);
-      setCurrentPalette(palette);
-    };
 
-    const interval = setInterval(simulateIntelligentAudio, 50);
-    return () => clearInterval(interval);
-  }, [isPlaying, intensity, mode, audioData]);
+    return () => {
+      cancelled = true;
+      pipeline.stop();
+      source.stop();
+      setInputError(null);
+    };
+  }, [isPlaying, source, pipeline]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -127,7 +258,7 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || !pipeline) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -151,13 +282,25 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
       // Set global composite operation for blending
       ctx.globalCompositeOperation = 'screen';
 
+      // Interpolate between the two latest analysis frames for this display frame
+      const snapshot = pipeline.sample();
+      // Intensity only changes how large the figures are drawn; analysis hears the source as it is
+      const audioData = snapshot.spectrum.length > 0 ? snapshot.spectrum.map((value) => value * intensityRef.current) : SILENT_SPECTRUM;
+      const features = snapshot.features;
+
       // Use intelligent color palette if available
-      const palette = currentPalette;
-      const features = audioFeatures;
-      const context = musicContext;
+      const palette = paletteRef.current;
+
+      // The whole scene draws in as a build-up tightens and bursts outwards when the drop lands
+      const dropBurst = pulseSince(lastDropAtRef.current, DROP_BURST_DECAY_MS);
+      const zoom = 1 - BUILD_UP_SQUEEZE * (snapshot.context?.buildUpProgress ?? 0) + DROP_BURST_SCALE * dropBurst;
+      ctx.save();
+      ctx.translate(centerX, centerY);
+      ctx.scale(zoom, zoom);
+      ctx.translate(-centerX, -centerY);
 
       if (mode === 'sacred') {
-        drawSacredGeometry(ctx, centerX, centerY, audioData, time, palette, features);
+        drawSacredGeometry(ctx, centerX, centerY, audioData, time, palette, features, snapshot.context);
       } else if (mode === 'cosmic') {
         drawCosmicParticles(ctx, centerX, centerY, audioData, time, width, height, palette, features);
       } else if (mode === 'flow') {
@@ -174,6 +317,14 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
         drawGalacticView(ctx, centerX, centerY, audioData, time, width, height, palette, features);
       }
 
+      ctx.restore();
+      if (dropBurst > 0.01) {
+        ctx.fillStyle = palette?.glow ?? 'white';
+        ctx.globalAlpha = dropBurst * 0.35;
+        ctx.fillRect(0, 0, width, height);
+        ctx.globalAlpha = 1;
+      }
+
       ctx.globalCompositeOperation = 'source-over';
       animationRef.current = requestAnimationFrame(animate);
     };
@@ -185,26 +336,39 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isPlaying, audioData, mode]);
+  }, [isPlaying, mode, pipeline]);
+
+  // Prepared files know their structure ahead of time; the overlay re-renders with each status update
+  const nextSection = pipeline?.lookahead(NEXT_SECTION_SECONDS)?.sections[0];
 
-  const drawSacredGeometry = (ctx: CanvasRenderingContext2D, centerX: number, centerY: number, data: number[], time: number, palette?: ColorPalette | null, features?: AudioFeatures | null) => {
-    const segments = features?.harmony ? Math.floor(6 + features.harmony * 6) : 6;
+  const drawSacredGeometry = (ctx: CanvasRenderingContext2D, centerX: number, centerY: number, data: number[], time: number, palette?: ColorPalette | null, features?: AudioFeatures | null, context?: MusicContext | null) => {
+    const chord = context?.chord ?? null;
+    const segments = chord ? SACRED_SEGMENTS[chord.quality] : 6;
     const rotationSpeed = features?.tempo ? features.tempo / 120 : 0.5;
+
+    // The figure turns to face the chord root, easing over a few frames after each change
+    const chordAngle = chord ? (chord.root / 12) * Math.PI * 2 : chordAngleRef.current;
+    const chordTurn = chordAngle - chordAngleRef.current;
+    chordAngleRef.current += Math.atan2(Math.sin(chordTurn), Math.cos(chordTurn)) * 0.1;
+    const beatPulse = pulseSince(lastBeatAtRef.current);
+    const barPulse = pulseSince(lastBarAtRef.current);
     
     for (let i = 0; i < segments; i++) {
       const angle = (i / segments) * Math.PI * 2;
       const intensity = data[i * Math.floor(128 / segments)] || 0;
-      const radius = 50 + intensity * (features?.energy ? 150 * features.energy : 100);
+      // Each petal follows its own band across the stereo field, so a wide mix breaks the mirror symmetry
+      const petalX = centerX + stereoShift(features, BAND_ORDER[Math.floor((i / segments) * BAND_ORDER.length)]);
+      const radius = (50 + intensity * (features?.smoothed.energy ? 150 * features.smoothed.energy : 100)) * (1 + beatPulse * 0.15);
       
       ctx.beginPath();
       
       const color = palette?.particles[i % (palette.particles.length || 1)] || `hsl(${270 + i * 20}, 70%, ${65 + intensity * 30}%)`;
       ctx.strokeStyle = color;
-      ctx.lineWidth = 2 + intensity * (features?.dynamics ? features.dynamics * 5 : 3);
+      ctx.lineWidth = 2 + intensity * (features?.smoothed.dynamics ? features.smoothed.dynamics * 5 : 3);
       
       for (let j = 0; j <= segments; j++) {
-        const pointAngle = angle + (j / segments) * Math.PI * 2 + time * rotationSpeed;
-        const x = centerX + Math.cos(pointAngle) * radius;
+        const pointAngle = angle + (j / segments) * Math.PI * 2 + time * rotationSpeed + chordAngleRef.current;
+        const x = petalX + Math.cos(pointAngle) * radius;
         const y = centerY + Math.sin(pointAngle) * radius;
         
         if (j === 0) {
@@ -218,33 +382,46 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
       
       if (palette?.glow) {
         ctx.shadowColor = palette.glow;
-        ctx.shadowBlur = intensity * (features?.energy ? features.energy * 30 : 20);
+        ctx.shadowBlur = intensity * (features?.smoothed.energy ? features.smoothed.energy * 30 : 20);
         ctx.stroke();
         ctx.shadowBlur = 0;
       }
       
       if (features && data[0] > 0.7) {
         ctx.beginPath();
-        ctx.arc(centerX, centerY, radius * 0.3, 0, Math.PI * 2);
+        ctx.arc(petalX, centerY, radius * 0.3, 0, Math.PI * 2);
         ctx.fillStyle = palette?.accent || color;
         ctx.fill();
       }
     }
+
+    // Each bar opens with a ring that swells out from the centre
+    if (barPulse > 0.05) {
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, 40 + (1 - barPulse) * 160, 0, Math.PI * 2);
+      ctx.strokeStyle = palette?.accent || `hsl(45, 90%, 70%)`;
+      ctx.globalAlpha = barPulse;
+      ctx.lineWidth = 2 + barPulse * 4;
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
   };
 
   const drawCosmicParticles = (ctx: CanvasRenderingContext2D, centerX: number, centerY: number, data: number[], time: number, width: number, height: number, palette?: ColorPalette | null, features?: AudioFeatures | null) => {
     const particleColors = palette?.particles || [];
     const speedMultiplier = features?.tempo ? features.tempo / 120 : 1;
+    const kickBurst = hitPulse(lastHitsRef.current.kick);
+    const snareBurst = hitPulse(lastHitsRef.current.snare);
     
     data.forEach((intensity, i) => {
       if (intensity < 0.1) return;
       
       const angle = (i / data.length) * Math.PI * 2 + time * (0.2 * speedMultiplier);
-      const distance = 100 + intensity * (features?.energy ? 300 * features.energy : 200);
+      const distance = 100 + intensity * (features?.smoothed.energy ? 300 * features.smoothed.energy : 200);
       const x = centerX + Math.cos(angle) * distance;
       const y = centerY + Math.sin(angle) * distance;
       
-      const size = 2 + intensity * (features?.dynamics ? features.dynamics * 12 : 8);
+      const size = 2 + intensity * (features?.smoothed.dynamics ? features.smoothed.dynamics * 12 : 8);
       const color = particleColors[i % particleColors.length] || `hsl(${(220 + i * 2) % 360}, 70%, ${55 + intensity * 20}%)`;
       
       ctx.beginPath();
@@ -266,14 +443,16 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
       ctx.fillStyle = palette?.secondary || `hsl(${(220 + i * 2) % 360}, 70%, ${35 + intensity * 10}%)`;
       ctx.fill();
       
-      if (features && intensity > 0.6 && data[Math.floor(i/4)] > 0.5) {
-        for (let burst = 0; burst < 3; burst++) {
-          const burstAngle = angle + (burst * Math.PI * 2 / 3);
-          const burstX = x + Math.cos(burstAngle) * (size * 2);
-          const burstY = y + Math.sin(burstAngle) * (size * 2);
+      // Kicks burst the low particles, snares the rest
+      const burst = i < data.length / 4 ? kickBurst : snareBurst;
+      if (burst > 0.1 && intensity > 0.3) {
+        for (let burstIndex = 0; burstIndex < 3; burstIndex++) {
+          const burstAngle = angle + (burstIndex * Math.PI * 2 / 3);
+          const burstX = x + Math.cos(burstAngle) * (size * (2 + (1 - burst) * 2));
+          const burstY = y + Math.sin(burstAngle) * (size * (2 + (1 - burst) * 2));
           
           ctx.beginPath();
-          ctx.arc(burstX, burstY, size * 0.3, 0, Math.PI * 2);
+          ctx.arc(burstX, burstY, size * 0.3 * (0.5 + burst), 0, Math.PI * 2);
           ctx.fillStyle = palette?.accent || color;
           ctx.fill();
         }
@@ -282,8 +461,15 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
   };
 
   const drawFlowingWaves = (ctx: CanvasRenderingContext2D, centerX: number, centerY: number, data: number[], time: number, width: number, height: number, palette?: ColorPalette | null, features?: AudioFeatures | null) => {
-    const waveCount = features?.harmony ? Math.floor(2 + features.harmony * 4) : 3;
+    const waveCount = features?.smoothed.harmony ? Math.floor(2 + features.smoothed.harmony * 4) : 3;
     const colors = palette?.particles || [];
+
+    // A sung or played note sets how tightly the waves ripple: an octave up doubles the ripples
+    const pitch = features?.pitch;
+    const targetWaveNumber = pitch && pitch.frequency > 0
+      ? FLOW_WAVE_NUMBER * Math.min(4, Math.max(0.25, pitch.frequency / FLOW_REFERENCE_HZ))
+      : FLOW_WAVE_NUMBER;
+    waveNumberRef.current += (targetWaveNumber - waveNumberRef.current) * 0.1;
     
     for (let wave = 0; wave < waveCount; wave++) {
       ctx.beginPath();
@@ -294,10 +480,10 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
       for (let x = 0; x < width; x += 2) {
         const dataIndex = Math.floor((x / width) * data.length);
         const intensity = data[dataIndex] || 0;
-        const harmonyMultiplier = features?.harmony || 1;
+        const harmonyMultiplier = features?.smoothed.harmony || 1;
         
         const y = centerY + 
-          Math.sin((x * 0.02) + (time * (1 + wave * 0.5))) * (30 + intensity * 50 * harmonyMultiplier) +
+          Math.sin((x * waveNumberRef.current) + (time * (1 + wave * 0.5))) * (30 + intensity * 50 * harmonyMultiplier) +
           Math.sin((x * 0.01) + (time * 0.3)) * (20 + intensity * 30) * (wave + 1);
         
         if (x === 0) {
@@ -316,25 +502,38 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
     const midIntensity = data.slice(16, 64).reduce((sum, val) => sum + val, 0) / 48;
     const highIntensity = data.slice(64).reduce((sum, val) => sum + val, 0) / 64;
     
-    const energyMultiplier = features?.energy || 1;
+    const energyMultiplier = features?.smoothed.energy || 1;
+    const beatPulse = pulseSince(lastBeatAtRef.current);
+    const barPulse = pulseSince(lastBarAtRef.current);
     
-    // Bass circle (outer)
+    // Bass circle (outer), kicked outwards on every beat; in a wide mix each circle drifts towards its band's side
     ctx.beginPath();
-    ctx.arc(centerX, centerY, 80 + bassIntensity * 120 * energyMultiplier, 0, Math.PI * 2);
+    ctx.arc(centerX + stereoShift(features, "bass"), centerY, 80 + bassIntensity * 120 * energyMultiplier + beatPulse * 30, 0, Math.PI * 2);
     ctx.strokeStyle = palette?.primary || `hsl(270, 70%, ${65 + bassIntensity * 30}%)`;
-    ctx.lineWidth = 3 + bassIntensity * 5;
+    ctx.lineWidth = 3 + bassIntensity * 5 + beatPulse * 4;
     ctx.stroke();
+
+    // Downbeat ring
+    if (barPulse > 0.05) {
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, 220 - barPulse * 60, 0, Math.PI * 2);
+      ctx.strokeStyle = palette?.glow || `hsl(300, 80%, 70%)`;
+      ctx.globalAlpha = barPulse;
+      ctx.lineWidth = 1 + barPulse * 6;
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
     
     // Mid circle 
     ctx.beginPath();
-    ctx.arc(centerX, centerY, 50 + midIntensity * 80 * energyMultiplier, 0, Math.PI * 2);
+    ctx.arc(centerX + stereoShift(features, "mid"), centerY, 50 + midIntensity * 80 * energyMultiplier, 0, Math.PI * 2);
     ctx.strokeStyle = palette?.secondary || `hsl(220, 70%, ${55 + midIntensity * 30}%)`;
     ctx.lineWidth = 2 + midIntensity * 4;
     ctx.stroke();
     
     // High circle (inner)
     ctx.beginPath();
-    ctx.arc(centerX, centerY, 20 + highIntensity * 40 * energyMultiplier, 0, Math.PI * 2);
+    ctx.arc(centerX + stereoShift(features, "presence"), centerY, 20 + highIntensity * 40 * energyMultiplier, 0, Math.PI * 2);
     ctx.strokeStyle = palette?.accent || `hsl(180, 70%, ${60 + highIntensity * 30}%)`;
     ctx.lineWidth = 1 + highIntensity * 3;
     ctx.stroke();
@@ -440,16 +639,17 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
       }
     }
     
-    // Draw nodes
+    // Draw nodes; every third node spikes on kicks, snares or hi-hats respectively
     nodes.forEach((node, i) => {
-      if (node.intensity < 0.1) return;
+      const spike = hitPulse(lastHitsRef.current[PERCUSSION_KINDS[i % PERCUSSION_KINDS.length]]);
+      if (node.intensity < 0.1 && spike < 0.1) return;
       
       ctx.beginPath();
-      ctx.arc(node.x, node.y, 3 + node.intensity * 8, 0, Math.PI * 2);
+      ctx.arc(node.x, node.y, 3 + node.intensity * 8 + spike * 8, 0, Math.PI * 2);
       ctx.fillStyle = palette?.accent || `hsl(300, 70%, ${50 + node.intensity * 30}%)`;
       ctx.fill();
       
-      if (node.intensity > 0.6) {
+      if (node.intensity > 0.6 || spike > 0.3) {
         ctx.shadowColor = palette?.glow || '#ff00ff';
         ctx.shadowBlur = 20;
         ctx.fill();
@@ -491,10 +691,11 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
       }
     }
     
-    // Draw galaxy spiral
+    // Draw galaxy spiral; the arms lean towards the louder side, the outer reaches furthest
+    const lean = (features?.stereo.balance ?? 0) * GALAXY_LEAN;
     for (let angle = 0; angle < Math.PI * 8; angle += 0.1) {
       const radius = angle * 10;
-      const x = centerX + Math.cos(angle + time * 0.2) * radius;
+      const x = centerX + Math.cos(angle + time * 0.2) * radius + lean * radius;
       const y = centerY + Math.sin(angle + time * 0.2) * radius;
       
       const dataIndex = Math.floor((angle / (Math.PI * 8)) * data.length);
@@ -531,14 +732,112 @@ export const AudioVisualizer = ({ isPlaying, intensity, mode, className }: Audio
         </div>
       )}
       
+      {isPlaying && inputError && (
+        <div className="absolute inset-0 flex items-center justify-center p-6">
+          <div className="max-w-sm text-center bg-glass-bg/70 backdrop-blur-sm rounded-lg p-6">
+            <VolumeX className="h-8 w-8 text-destructive mx-auto mb-3" />
+            <p className="font-medium mb-1">{SOURCE_ERROR_TITLES[inputError.kind]}</p>
+            <p className="text-sm text-muted-foreground">{inputError.message}</p>
+          </div>
+        </div>
+      )}
+      
       {/* Music Brain Status */}
-      {isPlaying && audioFeatures && (
+      {isPlaying && !inputError && pipeline && audioFeatures && (
         <div className="absolute top-4 left-4 text-xs text-muted-foreground bg-glass-bg/70 backdrop-blur-sm rounded p-2">
+          {prepared && <div>Analysis: prepared ahead of playback</div>}
+          {nextSection && source instanceof AudioFileSource && (
+            <div>
+              Next: {nextSection.kind} ({nextSection.label}) in {Math.ceil(nextSection.start - source.currentTime)} s
+            </div>
+          )}
           <div>Energy: {Math.round(audioFeatures.energy * 100)}%</div>
-          <div>Mood: {audioFeatures.mood}</div>
-          <div>Tempo: {Math.round(audioFeatures.tempo)} BPM</div>
+          <div>
+            Loudness: {audioFeatures.loudness.momentary.toFixed(1)} LUFS (3 s: {audioFeatures.loudness.shortTerm.toFixed(1)})
+          </div>
+          <div>
+            Peak {audioFeatures.loudness.peak.toFixed(1)} / RMS {audioFeatures.loudness.rms.toFixed(1)} dBFS,
+            gain {audioFeatures.loudness.gain >= 0 ? "+" : ""}{audioFeatures.loudness.gain.toFixed(1)} dB
+          </div>
+          <div>
+            Mood: {audioFeatures.mood} (valence {audioFeatures.valence.toFixed(2)}, arousal {audioFeatures.arousal.toFixed(2)})
+          </div>
+          <MoodMap
+            valence={audioFeatures.valence}
+            arousal={audioFeatures.arousal}
+            mood={audioFeatures.mood}
+            className="my-1 w-32"
+          />
+          <div>
+            Tempo: {Math.round(audioFeatures.tempo)} BPM ({Math.round(audioFeatures.tempoConfidence * 100)}% sure)
+          </div>
+          {musicContext && musicContext.buildUpProgress > 0 && (
+            <div>
+              Build-up: {Math.round(musicContext.buildUpProgress * 100)}%
+              {musicContext.dropIn !== null && ` (drop in ${musicContext.dropIn.toFixed(1)} s)`}
+            </div>
+          )}
+          <div>
+            Stereo: width {Math.round(audioFeatures.stereo.width * 100)}%, balance{" "}
+            {audioFeatures.stereo.balance < 0 ? "L" : "R"} {Math.round(Math.abs(audioFeatures.stereo.balance) * 100)}%,
+            correlation {audioFeatures.stereo.correlation.toFixed(2)}
+          </div>
+          <Goniometer source={source} className="my-1" />
+          {musicContext && (
+            <div>
+              Genre: {musicContext.genreHint}
+              {musicContext.genreHint !== "mixed" &&
+                ` (${Math.round(musicContext.genreProbabilities[musicContext.genreHint] * 100)}%)`}
+            </div>
+          )}
+          {musicContext && (
+            <div>
+              Section: {musicContext.currentSection.kind} ({musicContext.currentSection.label})
+            </div>
+          )}
+          {musicContext && (
+            <div>
+              Key: {formatKey(musicContext.key)} ({Math.round(musicContext.key.confidence * 100)}% sure)
+            </div>
+          )}
+          {musicContext && <div>Chord: {formatChord(musicContext.chord)}</div>}
+          {audioFeatures.pitch.frequency > 0 && (
+            <div>
+              Pitch: {audioFeatures.pitch.note} {audioFeatures.pitch.cents >= 0 ? "+" : ""}{audioFeatures.pitch.cents}¢
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-2 h-7 w-full text-xs"
+            onClick={() => pipeline.tap()}
+            title="Tap along with the beat to correct the tempo and beat position"
+          >
+            <Hand className="h-3 w-3 mr-1" />
+            Tap tempo
+          </Button>
+          <Button
+            variant={showDashboard ? "secondary" : "outline"}
+            size="sm"
+            className="mt-1 h-7 w-full text-xs"
+            onClick={() => setShowDashboard((shown) => !shown)}
+            title="Show spectrum, bands, onsets, chroma, mood and palette as the brains see them"
+          >
+            <Activity className="h-3 w-3 mr-1" />
+            {showDashboard ? "Hide debug panel" : "Debug panel"}
+          </Button>
+          <AnalysisExporter pipeline={pipeline} className="mt-1" />
+          {import.meta.env.DEV && <GenreRecorder pipeline={pipeline} className="mt-1" />}
         </div>
       )}
+
+      {isPlaying && !inputError && pipeline && showDashboard && (
+        <AnalysisDashboard
+          pipeline={pipeline}
+          palette={paletteRef.current}
+          className="absolute top-4 right-4 max-h-[calc(100%-2rem)]"
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,8 +1,15 @@
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
-import { Volume2, Palette, Zap, Settings2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Volume2, Palette, Zap, Settings2, Mic } from "lucide-react";
+import { useAudioInputDevices } from "@/hooks/use-audio-devices";
+import { AudioSourceKind } from "@/lib/audioSource";
+import { HueMapping } from "@/lib/colorBrain";
 
 interface ControlPanelProps {
   intensity: number;
@@ -11,9 +18,26 @@ interface ControlPanelProps {
   onModeChange: (mode: "sacred" | "cosmic" | "flow" | "pulse" | "trippy" | "ocean" | "neural" | "galaxy") => void;
   sensitivity: number;
   onSensitivityChange: (value: number[]) => void;
+  /** True while a file plays from an analysis prepared at the sensitivity it loaded with */
+  sensitivityLocked?: boolean;
+  hueMapping: HueMapping;
+  onHueMappingChange: (mapping: HueMapping) => void;
+  source: AudioSourceKind;
+  onSourceChange: (source: AudioSourceKind) => void;
+  deviceId?: string;
+  onDeviceChange: (deviceId: string | undefined) => void;
+  hasAudioFile: boolean;
+  streamUrl: string;
+  onStreamUrlChange: (url: string) => void;
   isVisible: boolean;
 }
 
+const DEMO_INPUT = "demo";
+const FILE_INPUT = "file";
+const MEDIA_INPUT = "media";
+const DISPLAY_INPUT = "display";
+const DEFAULT_MICROPHONE_INPUT = "default-microphone";
+
 export const ControlPanel = ({
   intensity,
   onIntensityChange,
@@ -21,8 +45,25 @@ export const ControlPanel = ({
   onModeChange,
   sensitivity,
   onSensitivityChange,
+  sensitivityLocked = false,
+  hueMapping,
+  onHueMappingChange,
+  source,
+  onSourceChange,
+  deviceId,
+  onDeviceChange,
+  hasAudioFile,
+  streamUrl,
+  onStreamUrlChange,
   isVisible
 }: ControlPanelProps) => {
+  const { devices, refresh: refreshDevices } = useAudioInputDevices();
+  const [streamUrlDraft, setStreamUrlDraft] = useState(streamUrl);
+
+  useEffect(() => {
+    setStreamUrlDraft(streamUrl);
+  }, [streamUrl]);
+
   const modes = [
     {
       id: "sacred" as const,
@@ -82,6 +123,18 @@ export const ControlPanel = ({
     }
   ];
 
+  const selectedInput = source === "microphone" ? deviceId ?? DEFAULT_MICROPHONE_INPUT : source;
+
+  const handleInputChange = (value: string) => {
+    if (value === DEMO_INPUT || value === FILE_INPUT || value === MEDIA_INPUT || value === DISPLAY_INPUT) {
+      onSourceChange(value);
+      return;
+    }
+
+    onSourceChange("microphone");
+    onDeviceChange(value === DEFAULT_MICROPHONE_INPUT ? undefined : value);
+  };
+
   if (!isVisible) return null;
 
   return (
@@ -93,6 +146,53 @@ export const ControlPanel = ({
           <h3 className="text-lg font-semibold">Visual Controls</h3>
         </div>
 
+        {/* Audio Input */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Mic className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm font-medium">Audio Input</span>
+          </div>
+          <Select
+            value={selectedInput}
+            onValueChange={handleInputChange}
+            onOpenChange={(open) => open && refreshDevices()}
+          >
+            <SelectTrigger className="text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEMO_INPUT} className="text-xs">Demo signal</SelectItem>
+              <SelectItem value={FILE_INPUT} disabled={!hasAudioFile} className="text-xs">Audio file</SelectItem>
+              <SelectItem value={MEDIA_INPUT} className="text-xs">Stream URL</SelectItem>
+              <SelectItem value={DISPLAY_INPUT} className="text-xs">Tab / system audio</SelectItem>
+              <SelectItem value={DEFAULT_MICROPHONE_INPUT} className="text-xs">Default microphone</SelectItem>
+              {devices.map((device) => (
+                <SelectItem key={device.deviceId} value={device.deviceId} className="text-xs">
+                  {device.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {source === "display" && (
+            <p className="text-xs text-muted-foreground">
+              Press play, pick a browser tab or your screen, and switch on "Share audio".
+            </p>
+          )}
+          {source === "media" && (
+            <Input
+              type="url"
+              placeholder="https://example.com/stream.mp3"
+              value={streamUrlDraft}
+              onChange={(event) => setStreamUrlDraft(event.target.value)}
+              onBlur={() => onStreamUrlChange(streamUrlDraft.trim())}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") onStreamUrlChange(streamUrlDraft.trim());
+              }}
+              className="text-xs"
+            />
+          )}
+        </div>
+
         {/* Visual Modes */}
         <div className="space-y-3">
           <div className="flex items-center gap-2">
@@ -166,12 +266,33 @@ export const ControlPanel = ({
             max={2}
             min={0.1}
             step={0.1}
+            disabled={sensitivityLocked}
             className="w-full"
           />
           <div className="flex justify-between text-xs text-muted-foreground">
             <span>Low</span>
             <span>High</span>
           </div>
+          {sensitivityLocked && (
+            <p className="text-xs text-muted-foreground">
+              This file was analysed ahead of playback at the sensitivity it loaded with. Reload it to analyse it at another.
+            </p>
+          )}
+        </div>
+
+        {/* Color Mapping */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <label htmlFor="chromesthesia" className="text-sm font-medium">Chromesthesia</label>
+            <p className="text-xs text-muted-foreground">
+              Color follows the key and notes being played instead of the genre
+            </p>
+          </div>
+          <Switch
+            id="chromesthesia"
+            checked={hueMapping === "chromesthesia"}
+            onCheckedChange={(checked) => onHueMappingChange(checked ? "chromesthesia" : "genre")}
+          />
         </div>
 
         {/* Quick Presets */}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Circle, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { AnalysisPipeline } from "@/lib/analysisPipeline";
+import { Genre, GENRES, GenreFeatureDump } from "@/lib/genreClassifier";
+
+interface GenreRecorderProps {
+  pipeline: AnalysisPipeline;
+  className?: string;
+}
+
+const saveDump = (dump: GenreFeatureDump) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(dump)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `genre-${dump.label}-${Date.now()}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Records labelled feature dumps for `npm run train:genre` while music of a known genre plays */
+export const GenreRecorder = ({ pipeline, className }: GenreRecorderProps) => {
+  const [label, setLabel] = useState<Genre>("electronic");
+  const recorded = pipeline.recordedSummaries;
+
+  const toggleRecording = () => {
+    if (recorded === null) {
+      pipeline.startRecording(label);
+      return;
+    }
+
+    const dump = pipeline.stopRecording();
+    if (dump && dump.vectors.length > 0) saveDump(dump);
+  };
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Select value={label} onValueChange={(value) => setLabel(value as Genre)} disabled={recorded !== null}>
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {GENRES.map((genre) => (
+            <SelectItem key={genre} value={genre} className="text-xs">
+              {genre}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 shrink-0 text-xs"
+        onClick={toggleRecording}
+        title="Record feature summaries labelled with this genre, then save them for retraining"
+      >
+        {recorded === null ? (
+          <>
+            <Circle className="h-3 w-3 mr-1" />
+            Record
+          </>
+        ) : (
+          <>
+            <Download className="h-3 w-3 mr-1" />
+            Save ({recorded})
+          </>
+        )}
+      </Button>
+    </div>
+  );
+};
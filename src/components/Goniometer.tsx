@@ -0,0 +1,78 @@
+import { useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+import { AudioSource } from "@/lib/audioSource";
+
+interface GoniometerProps {
+  source: AudioSource;
+  /** Side length in CSS pixels */
+  size?: number;
+  className?: string;
+}
+
+/** Quietest peak the scope zooms in to, so near-silence does not fill the display with noise */
+const MIN_PEAK = 0.05;
+
+/**
+ * Vectorscope of the source's two channels: mid upwards and side across, so mono is a vertical
+ * line, a wide mix a round cloud and a hard-panned part a diagonal
+ */
+export const Goniometer = ({ source, size = 128, className }: GoniometerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const scale = window.devicePixelRatio;
+    canvas.width = size * scale;
+    canvas.height = size * scale;
+    ctx.scale(scale, scale);
+
+    let frame = 0;
+    const draw = () => {
+      const centre = size / 2;
+      ctx.clearRect(0, 0, size, size);
+
+      // Axes: the middle vertical, each channel on a diagonal
+      ctx.strokeStyle = "hsla(0, 0%, 100%, 0.15)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(centre, 0);
+      ctx.lineTo(centre, size);
+      ctx.moveTo(0, 0);
+      ctx.lineTo(size, size);
+      ctx.moveTo(size, 0);
+      ctx.lineTo(0, size);
+      ctx.stroke();
+
+      const channels = source.getStereoTimeDomainData();
+      if (channels) {
+        const { left, right } = channels;
+        let peak = MIN_PEAK;
+        for (let i = 0; i < left.length; i++) peak = Math.max(peak, Math.abs(left[i]), Math.abs(right[i]));
+        const reach = (centre * 0.9) / (peak * Math.SQRT2);
+
+        ctx.fillStyle = "hsla(180, 70%, 70%, 0.5)";
+        for (let i = 0; i < left.length; i += 2) {
+          const x = centre + (right[i] - left[i]) * reach;
+          const y = centre - (left[i] + right[i]) * reach;
+          ctx.fillRect(x, y, 1, 1);
+        }
+      }
+
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [source, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn("rounded border border-border/50 bg-background/40", className)}
+      style={{ width: size, height: size }}
+    />
+  );
+};
@@ -0,0 +1,48 @@
+import { MOOD_ANCHORS, MOOD_NAMES, MoodName } from "@/lib/moodModel";
+import { cn } from "@/lib/utils";
+
+interface MoodMapProps {
+  /** Unpleasant to pleasant, -1 to 1 */
+  valence: number;
+  /** Sleepy to excited, -1 to 1 */
+  arousal: number;
+  mood: MoodName;
+  className?: string;
+}
+
+/** Position on the map, in percent from the top-left corner, for a valence-arousal point */
+const toPercent = (valence: number, arousal: number) => ({
+  left: `${((Math.max(-1, Math.min(1, valence)) + 1) / 2) * 100}%`,
+  top: `${((1 - Math.max(-1, Math.min(1, arousal))) / 2) * 100}%`
+});
+
+export const MoodMap = ({ valence, arousal, mood, className }: MoodMapProps) => {
+  return (
+    <div
+      className={cn("relative aspect-square w-full rounded border border-border/50 bg-background/40", className)}
+      title={`Valence ${valence.toFixed(2)}, arousal ${arousal.toFixed(2)}`}
+    >
+      {/* Axes: valence left to right, arousal bottom to top */}
+      <div className="absolute left-1/2 top-0 h-full w-px bg-border/50" />
+      <div className="absolute top-1/2 left-0 h-px w-full bg-border/50" />
+
+      {MOOD_NAMES.map((name) => (
+        <span
+          key={name}
+          className={cn(
+            "absolute -translate-x-1/2 -translate-y-1/2 text-[9px] leading-none",
+            name === mood ? "text-foreground font-medium" : "text-muted-foreground/60"
+          )}
+          style={toPercent(MOOD_ANCHORS[name].valence, MOOD_ANCHORS[name].arousal)}
+        >
+          {name}
+        </span>
+      ))}
+
+      <div
+        className="absolute h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary shadow-glow transition-all duration-300"
+        style={toPercent(valence, arousal)}
+      />
+    </div>
+  );
+};
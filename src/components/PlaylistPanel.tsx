@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ListMusic, Shuffle, Repeat, Repeat1, GripVertical, X, Bookmark, BookmarkCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PlaylistEntry, RepeatMode } from "@/lib/playlistStore";
+
+interface PlaylistPanelProps {
+  entries: PlaylistEntry[];
+  currentId: string | null;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  onSelect: (entry: PlaylistEntry) => void;
+  onRemove: (id: string) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+  onToggleSettings: (entry: PlaylistEntry) => void;
+  isVisible: boolean;
+}
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return "";
+  const safeSeconds = Math.max(0, Math.round(seconds));
+  return `${Math.floor(safeSeconds / 60)}:${String(safeSeconds % 60).padStart(2, '0')}`;
+};
+
+export const PlaylistPanel = ({
+  entries,
+  currentId,
+  shuffle,
+  repeat,
+  onSelect,
+  onRemove,
+  onMove,
+  onToggleShuffle,
+  onCycleRepeat,
+  onToggleSettings,
+  isVisible
+}: PlaylistPanelProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  if (!isVisible) return null;
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <Card className="absolute top-20 left-6 w-80 p-4 bg-glass-bg border-glass-border backdrop-blur-xl shadow-glass">
+      <div className="space-y-3">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ListMusic className="h-4 w-4 text-primary" />
+            <h3 className="text-sm font-semibold">Playlist</h3>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              variant={shuffle ? "default" : "ghost"}
+              size="icon"
+              className="h-7 w-7"
+              onClick={onToggleShuffle}
+              aria-label="Shuffle"
+            >
+              <Shuffle className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant={repeat !== "off" ? "default" : "ghost"}
+              size="icon"
+              className="h-7 w-7"
+              onClick={onCycleRepeat}
+              aria-label={`Repeat: ${repeat}`}
+            >
+              {repeat === "one" ? <Repeat1 className="h-3.5 w-3.5" /> : <Repeat className="h-3.5 w-3.5" />}
+            </Button>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Drop audio files anywhere or open them from the transport bar to build a queue.
+          </p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto space-y-1 pr-1">
+            {entries.map((entry, index) => (
+              <li
+                key={entry.id}
+                draggable
+                onDragStart={(event) => {
+                  event.dataTransfer.effectAllowed = "move";
+                  setDragIndex(index);
+                }}
+                onDragOver={(event) => {
+                  if (dragIndex === null) return;
+                  event.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={(event) => {
+                  if (dragIndex === null) return;
+                  // Keep reorders from reaching the file drop zone behind the panel
+                  event.preventDefault();
+                  event.stopPropagation();
+                  if (dragIndex !== index) onMove(dragIndex, index);
+                  endDrag();
+                }}
+                onDragEnd={endDrag}
+                className={cn(
+                  "group flex items-center gap-2 rounded-md px-2 py-1.5 text-xs transition-colors",
+                  entry.id === currentId ? "bg-primary/20" : "hover:bg-muted/50",
+                  dropIndex === index && dragIndex !== index && "ring-1 ring-primary",
+                  dragIndex === index && "opacity-50"
+                )}
+              >
+                <GripVertical className="h-3.5 w-3.5 shrink-0 cursor-grab text-muted-foreground" />
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => onSelect(entry)}
+                >
+                  <span className={cn("block truncate", entry.id === currentId && "font-medium text-primary")}>
+                    {entry.name}
+                  </span>
+                </button>
+                <span className="tabular-nums text-muted-foreground">{formatDuration(entry.duration)}</span>
+                <button
+                  type="button"
+                  onClick={() => onToggleSettings(entry)}
+                  className={cn("text-muted-foreground hover:text-foreground", entry.settings && "text-primary")}
+                  aria-label={entry.settings ? "Forget this track's look" : "Remember the current look for this track"}
+                  title={entry.settings ? `Remembers ${entry.settings.mode} mode` : "Remember current mode, intensity and sensitivity"}
+                >
+                  {entry.settings ? <BookmarkCheck className="h-3.5 w-3.5" /> : <Bookmark className="h-3.5 w-3.5" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(entry.id)}
+                  className="text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-destructive"
+                  aria-label={`Remove ${entry.name}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,119 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { Play, Pause, FolderOpen, Loader2, SkipBack, SkipForward } from "lucide-react";
+import { AUDIO_FILE_ACCEPT } from "@/lib/fileSource";
+import { LoadedTrack } from "@/hooks/use-audio-file-player";
+
+interface TransportBarProps {
+  track: LoadedTrack | null;
+  currentTime: number;
+  isPlaying: boolean;
+  isLoading: boolean;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onFilesSelect: (files: File[]) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  hasQueue: boolean;
+}
+
+const formatTime = (seconds: number) => {
+  const safeSeconds = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(safeSeconds / 60);
+  return `${minutes}:${String(safeSeconds % 60).padStart(2, '0')}`;
+};
+
+export const TransportBar = ({
+  track,
+  currentTime,
+  isPlaying,
+  isLoading,
+  onTogglePlay,
+  onSeek,
+  onFilesSelect,
+  onPrevious,
+  onNext,
+  hasQueue
+}: TransportBarProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+
+  const duration = track?.duration ?? 0;
+  const displayTime = scrubTime ?? currentTime;
+
+  return (
+    <Card className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[min(36rem,calc(100%-8rem))] px-4 py-3 bg-glass-bg border-glass-border backdrop-blur-xl shadow-glass">
+      <div className="flex items-center gap-3">
+        <div className="flex items-center">
+          {hasQueue && (
+            <Button variant="ghost" size="icon" onClick={onPrevious} aria-label="Previous track">
+              <SkipBack className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onTogglePlay}
+            aria-label={isPlaying ? "Pause" : "Play"}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          {hasQueue && (
+            <Button variant="ghost" size="icon" onClick={onNext} aria-label="Next track">
+              <SkipForward className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {track ? (
+          <div className="flex-1 min-w-0 space-y-1">
+            <p className="text-xs font-medium truncate">{track.name}</p>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-muted-foreground tabular-nums">{formatTime(displayTime)}</span>
+              <Slider
+                value={[displayTime]}
+                max={duration || 1}
+                step={0.1}
+                onValueChange={(value) => setScrubTime(value[0])}
+                onValueCommit={(value) => {
+                  onSeek(value[0]);
+                  setScrubTime(null);
+                }}
+                className="flex-1"
+              />
+              <span className="text-xs text-muted-foreground tabular-nums">-{formatTime(duration - displayTime)}</span>
+            </div>
+          </div>
+        ) : (
+          <p className="flex-1 text-xs text-muted-foreground">
+            Drop MP3, WAV, OGG or FLAC files here, or open some
+          </p>
+        )}
+
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          aria-label="Add audio files"
+        >
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FolderOpen className="h-4 w-4" />}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={AUDIO_FILE_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            const files = Array.from(event.target.files ?? []);
+            if (files.length > 0) onFilesSelect(files);
+            event.target.value = '';
+          }}
+        />
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from "react";
+import { AudioInputDevice, MicrophoneSource } from "@/lib/microphoneSource";
+
+export function useAudioInputDevices() {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+
+  const refresh = useCallback(() => {
+    MicrophoneSource.listDevices()
+      .then(setDevices)
+      .catch(() => setDevices([]));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    mediaDevices.addEventListener("devicechange", refresh);
+    return () => mediaDevices.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  return { devices, refresh };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toAudioSourceError } from "@/lib/audioSource";
+import { AudioFileSource } from "@/lib/fileSource";
+
+export interface LoadedTrack {
+  name: string;
+  duration: number;
+}
+
+const TIME_UPDATE_INTERVAL = 250;
+
+export function useAudioFilePlayer(onEnded?: () => void) {
+  const [source] = useState(() => new AudioFileSource());
+  const [track, setTrack] = useState<LoadedTrack | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const onEndedRef = useRef(onEnded);
+
+  useEffect(() => {
+    onEndedRef.current = onEnded;
+  }, [onEnded]);
+
+  useEffect(() => {
+    source.onEnded = () => {
+      setCurrentTime(0);
+      onEndedRef.current?.();
+    };
+
+    const interval = setInterval(() => setCurrentTime(source.currentTime), TIME_UPDATE_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      source.onEnded = null;
+      source.dispose();
+    };
+  }, [source]);
+
+  const loadFile = useCallback(async (file: File) => {
+    setIsLoading(true);
+
+    try {
+      await source.load(file);
+      setTrack({ name: file.name, duration: source.duration });
+      setCurrentTime(0);
+    } catch (error) {
+      throw toAudioSourceError(error, `"${file.name}" could not be loaded.`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [source]);
+
+  const seek = useCallback((time: number) => {
+    source.seek(time);
+    setCurrentTime(source.currentTime);
+  }, [source]);
+
+  return { source, track, currentTime, isLoading, loadFile, seek };
+}
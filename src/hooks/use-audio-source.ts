@@ -0,0 +1,66 @@
+import { useEffect, useMemo, useRef } from "react";
+import { AudioSource, AudioSourceKind } from "@/lib/audioSource";
+import { MicrophoneSource } from "@/lib/microphoneSource";
+import { MediaElementSource } from "@/lib/mediaElementSource";
+import { SimulatedSource } from "@/lib/simulatedSource";
+import { DisplayCaptureSource } from "@/lib/displayCaptureSource";
+import { AudioFileSource } from "@/lib/fileSource";
+
+interface AudioSourceOptions {
+  mode: "sacred" | "cosmic" | "flow" | "pulse" | "trippy" | "ocean" | "neural" | "galaxy";
+  deviceId?: string;
+  streamUrl?: string;
+  fileSource: AudioFileSource;
+  /** Called when a live share is ended from outside the app, e.g. the browser's "Stop sharing" bar */
+  onSourceEnded?: () => void;
+}
+
+/**
+ * Resolves the selected source kind to a live AudioSource instance.
+ * The file source is owned by its player hook; every other source is disposed here when replaced.
+ */
+export function useAudioSource(kind: AudioSourceKind, { mode, deviceId, streamUrl, fileSource, onSourceEnded }: AudioSourceOptions): AudioSource {
+  const onSourceEndedRef = useRef(onSourceEnded);
+
+  useEffect(() => {
+    onSourceEndedRef.current = onSourceEnded;
+  }, [onSourceEnded]);
+
+  // Only the input the selected kind reads may rebuild it, so picking another microphone leaves a playing file alone
+  const input = kind === "microphone" ? deviceId : kind === "media" ? streamUrl : undefined;
+
+  const source = useMemo<AudioSource>(() => {
+    switch (kind) {
+      case "microphone":
+        return new MicrophoneSource(input);
+      case "media":
+        return new MediaElementSource(input ?? "");
+      case "display":
+        return new DisplayCaptureSource();
+      case "file":
+        return fileSource;
+      default:
+        return new SimulatedSource();
+    }
+  }, [kind, input, fileSource]);
+
+  useEffect(() => {
+    if (source === fileSource) return;
+    return () => source.dispose();
+  }, [source, fileSource]);
+
+  useEffect(() => {
+    if (source instanceof SimulatedSource) source.setMode(mode);
+  }, [source, mode]);
+
+  useEffect(() => {
+    if (!(source instanceof DisplayCaptureSource)) return;
+
+    source.onEnded = () => onSourceEndedRef.current?.();
+    return () => {
+      source.onEnded = null;
+    };
+  }, [source]);
+
+  return source;
+}
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PlaylistEntry, PlaylistState, PlaylistStore, RepeatMode, TrackSettings } from "@/lib/playlistStore";
+
+const REPEAT_CYCLE: RepeatMode[] = ["off", "all", "one"];
+
+const pickRandom = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+export function usePlaylist() {
+  const [store] = useState(() => new PlaylistStore());
+  const [state, setState] = useState<PlaylistState>(() => store.loadMetadata());
+  // Tracks already heard in the current shuffle cycle, and the order they were heard in
+  const playedIdsRef = useRef(new Set<string>());
+  const historyRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    store.saveMetadata(state);
+  }, [store, state]);
+
+  const { entries, currentId, shuffle, repeat } = state;
+  const currentEntry = entries.find(entry => entry.id === currentId) ?? null;
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const added: PlaylistEntry[] = [];
+
+    for (const file of files) {
+      const entry: PlaylistEntry = { id: crypto.randomUUID(), name: file.name, duration: null, settings: null };
+      await store.putTrack(entry.id, file);
+      added.push(entry);
+    }
+
+    setState(previous => ({ ...previous, entries: [...previous.entries, ...added] }));
+    return added;
+  }, [store]);
+
+  const remove = useCallback((id: string) => {
+    store.deleteTrack(id).catch(() => undefined);
+    playedIdsRef.current.delete(id);
+    historyRef.current = historyRef.current.filter(historyId => historyId !== id);
+
+    setState(previous => ({
+      ...previous,
+      entries: previous.entries.filter(entry => entry.id !== id),
+      currentId: previous.currentId === id ? null : previous.currentId
+    }));
+  }, [store]);
+
+  const move = useCallback((fromIndex: number, toIndex: number) => {
+    setState(previous => {
+      const reordered = [...previous.entries];
+      const [moved] = reordered.splice(fromIndex, 1);
+      if (!moved) return previous;
+
+      reordered.splice(toIndex, 0, moved);
+      return { ...previous, entries: reordered };
+    });
+  }, []);
+
+  const setCurrent = useCallback((id: string) => {
+    const history = historyRef.current;
+    // Stepping back to the last heard track unwinds the history instead of growing it
+    if (history[history.length - 1] === id) {
+      history.pop();
+    } else if (currentId && currentId !== id) {
+      history.push(currentId);
+    }
+
+    playedIdsRef.current.add(id);
+    setState(previous => ({ ...previous, currentId: id }));
+  }, [currentId]);
+
+  const updateEntry = useCallback((id: string, patch: Partial<Omit<PlaylistEntry, "id">>) => {
+    setState(previous => ({
+      ...previous,
+      entries: previous.entries.map(entry => entry.id === id ? { ...entry, ...patch } : entry)
+    }));
+  }, []);
+
+  const rememberSettings = useCallback((id: string, settings: TrackSettings | null) => {
+    updateEntry(id, { settings });
+  }, [updateEntry]);
+
+  const setShuffle = useCallback((enabled: boolean) => {
+    playedIdsRef.current = new Set(currentId ? [currentId] : []);
+    setState(previous => ({ ...previous, shuffle: enabled }));
+  }, [currentId]);
+
+  const cycleRepeat = useCallback(() => {
+    setState(previous => ({
+      ...previous,
+      repeat: REPEAT_CYCLE[(REPEAT_CYCLE.indexOf(previous.repeat) + 1) % REPEAT_CYCLE.length]
+    }));
+  }, []);
+
+  /**
+   * Works out which entry should play next. `auto` is true when the current track ended by
+   * itself, which is the only case where repeat-one keeps playing the same track.
+   */
+  const getNext = useCallback((auto: boolean): PlaylistEntry | null => {
+    if (entries.length === 0) return null;
+    if (!currentEntry) return entries[0];
+    if (auto && repeat === "one") return currentEntry;
+
+    if (shuffle) {
+      let candidates = entries.filter(entry => !playedIdsRef.current.has(entry.id));
+      if (candidates.length === 0) {
+        if (repeat === "off" && auto) return null;
+        playedIdsRef.current = new Set([currentEntry.id]);
+        candidates = entries.filter(entry => entry.id !== currentEntry.id);
+      }
+      return candidates.length > 0 ? pickRandom(candidates) : currentEntry;
+    }
+
+    const index = entries.indexOf(currentEntry);
+    if (index < entries.length - 1) return entries[index + 1];
+    return repeat === "off" && auto ? null : entries[0];
+  }, [entries, currentEntry, shuffle, repeat]);
+
+  const getPrevious = useCallback((): PlaylistEntry | null => {
+    if (entries.length === 0) return null;
+    if (!currentEntry) return entries[entries.length - 1];
+
+    if (shuffle) {
+      const previousId = historyRef.current[historyRef.current.length - 1];
+      return entries.find(entry => entry.id === previousId) ?? currentEntry;
+    }
+
+    const index = entries.indexOf(currentEntry);
+    return index > 0 ? entries[index - 1] : entries[entries.length - 1];
+  }, [entries, currentEntry, shuffle]);
+
+  const getFile = useCallback(async (entry: PlaylistEntry) => {
+    const file = await store.getTrack(entry.id, entry.name);
+    if (!file) throw new Error(`"${entry.name}" is no longer stored in this browser. Add it to the playlist again.`);
+    return file;
+  }, [store]);
+
+  return {
+    entries,
+    currentEntry,
+    shuffle,
+    repeat,
+    addFiles,
+    remove,
+    move,
+    setCurrent,
+    updateEntry,
+    rememberSettings,
+    setShuffle,
+    cycleRepeat,
+    getNext,
+    getPrevious,
+    getFile
+  };
+}
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisCache } from './analysisCache';
+import { ANALYSIS_FRAME_LENGTH } from './analysisFrame';
+import { ANALYSIS_TRACK_VERSION, AnalysisTrack } from './trackPrepass';
+
+/** Object stores held in memory; each request returns its result straight away */
+const stores = vi.hoisted(() => new Map<string, Map<IDBValidKey, unknown>>());
+
+vi.mock('./database', () => ({
+  ANALYSIS_STORE: 'analysis-tracks',
+  ANALYSIS_USAGE_STORE: 'analysis-usage',
+  requestStore: async (name: string, _mode: IDBTransactionMode, run: (store: unknown) => unknown) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    const store = stores.get(name)!;
+    return run({
+      get: (key: IDBValidKey) => store.get(key),
+      put: (value: unknown, key: IDBValidKey) => store.set(key, value),
+      delete: (key: IDBValidKey) => store.delete(key),
+      getAll: () => [...store.values()],
+      getAllKeys: () => [...store.keys()]
+    });
+  }
+}));
+
+const FFT_SIZE = 4096;
+const HOP_SIZE = 1024;
+const SENSITIVITY = 0.8;
+
+/** A track whose frames take up some bytes */
+const track = (hash: string, bytes: number): AnalysisTrack => ({
+  version: ANALYSIS_TRACK_VERSION,
+  hash,
+  sampleRate: 44100,
+  fftSize: FFT_SIZE,
+  hopSize: HOP_SIZE,
+  sensitivity: SENSITIVITY,
+  frameLength: ANALYSIS_FRAME_LENGTH,
+  frames: new Float32Array(bytes / 4),
+  beats: [],
+  sections: [],
+  key: { tonic: 0, mode: 'major', confidence: 0 }
+});
+
+const cached = (cache: AnalysisCache, hash: string) => cache.get(hash, FFT_SIZE, HOP_SIZE, SENSITIVITY);
+
+/** Moves the clock on, so each use of the cache happens at its own time */
+const later = () => vi.setSystemTime(Date.now() + 1000);
+
+describe('AnalysisCache', () => {
+  beforeEach(() => {
+    stores.clear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns a stored track only for the settings it was analysed at', async () => {
+    const cache = new AnalysisCache();
+    await cache.put(track('a', 400));
+
+    expect((await cached(cache, 'a'))?.hash).toBe('a');
+    expect(await cache.get('a', FFT_SIZE, HOP_SIZE, 1)).toBeNull();
+    expect(await cache.get('a', 2048, HOP_SIZE, SENSITIVITY)).toBeNull();
+    expect(await cached(cache, 'b')).toBeNull();
+  });
+
+  it('drops the least recently used tracks once over its size limit', async () => {
+    const cache = new AnalysisCache(1000);
+    await cache.put(track('a', 400));
+    later();
+    await cache.put(track('b', 400));
+    later();
+    // Reading a track counts as using it, so b is now the one used longest ago
+    await cached(cache, 'a');
+    later();
+    await cache.put(track('c', 400));
+
+    expect(await cached(cache, 'a')).not.toBeNull();
+    expect(await cached(cache, 'b')).toBeNull();
+    expect(await cached(cache, 'c')).not.toBeNull();
+  });
+
+  it('drops as many tracks as it takes to fit', async () => {
+    const cache = new AnalysisCache(1000);
+    for (const hash of ['a', 'b', 'c']) {
+      await cache.put(track(hash, 300));
+      later();
+    }
+    await cache.put(track('d', 800));
+
+    expect(await cached(cache, 'a')).toBeNull();
+    expect(await cached(cache, 'b')).toBeNull();
+    expect(await cached(cache, 'c')).toBeNull();
+    expect(await cached(cache, 'd')).not.toBeNull();
+  });
+
+  it('does not store a track larger than the whole cache', async () => {
+    const cache = new AnalysisCache(1000);
+    await cache.put(track('a', 400));
+    later();
+    await cache.put(track('huge', 2000));
+
+    expect(await cached(cache, 'huge')).toBeNull();
+    expect(await cached(cache, 'a')).not.toBeNull();
+  });
+
+  it('drops tracks stored before their use was recorded', async () => {
+    stores.set('analysis-tracks', new Map([['old', track('old', 400)]]));
+    const cache = new AnalysisCache(1000);
+    await cache.put(track('a', 400));
+
+    expect(stores.get('analysis-tracks')!.has('old')).toBe(false);
+    expect(await cached(cache, 'a')).not.toBeNull();
+  });
+});
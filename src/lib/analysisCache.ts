@@ -0,0 +1,94 @@
+/**
+ * Analysis Cache - Keeps analysed tracks in IndexedDB, keyed by a hash of the file's bytes
+ * A file played again, even after a reload or under another name, skips the pre-pass; the tracks
+ * used least recently are dropped once the cache outgrows its size limit
+ */
+
+import { ANALYSIS_STORE, ANALYSIS_USAGE_STORE, requestStore } from './database';
+import { ANALYSIS_FRAME_LENGTH } from './analysisFrame';
+import { ANALYSIS_TRACK_VERSION, AnalysisTrack } from './trackPrepass';
+
+/** Hex SHA-256 of some bytes, or null where the browser offers no digest (outside secure contexts) */
+export const hashBytes = async (bytes: ArrayBuffer): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Bytes of encoded frames the cache holds before it drops the least recently used tracks */
+const MAX_CACHE_BYTES = 256 * 1024 * 1024;
+
+/** Kept apart from the tracks, so sizing up the cache does not read every track's frames */
+interface TrackUsage {
+  hash: string;
+  bytes: number;
+  /** Milliseconds since the epoch when the track was last stored or read */
+  usedAt: number;
+}
+
+export class AnalysisCache {
+  /**
+   * @param maxBytes Bytes of encoded frames kept before the least recently used tracks are dropped
+   */
+  constructor(private readonly maxBytes = MAX_CACHE_BYTES) {}
+
+  /**
+   * The track stored for a file, or null when there is none analysed the same way by this build
+   * @param hash Hash of the file's bytes
+   * @param fftSize FFT length the track must have been analysed at
+   * @param hopSize Hop the track must have been analysed at
+   * @param sensitivity Sensitivity the track must have been analysed at
+   */
+  async get(hash: string, fftSize: number, hopSize: number, sensitivity: number): Promise<AnalysisTrack | null> {
+    const track = await requestStore<AnalysisTrack | undefined>(ANALYSIS_STORE, 'readonly', store => store.get(hash));
+    if (!track) return null;
+
+    const current =
+      track.version === ANALYSIS_TRACK_VERSION &&
+      track.fftSize === fftSize &&
+      track.hopSize === hopSize &&
+      track.sensitivity === sensitivity &&
+      track.frameLength === ANALYSIS_FRAME_LENGTH;
+    if (!current) return null;
+
+    await this.touch(track);
+    return track;
+  }
+
+  /** Stores a track, then drops the least recently used ones until the cache fits its limit again */
+  async put(track: AnalysisTrack): Promise<void> {
+    if (track.frames.byteLength > this.maxBytes) return;
+
+    await requestStore(ANALYSIS_STORE, 'readwrite', store => store.put(track, track.hash));
+    await this.touch(track);
+    await this.evict();
+  }
+
+  private async touch(track: AnalysisTrack): Promise<void> {
+    const usage: TrackUsage = { hash: track.hash, bytes: track.frames.byteLength, usedAt: Date.now() };
+    await requestStore(ANALYSIS_USAGE_STORE, 'readwrite', store => store.put(usage, track.hash));
+  }
+
+  private async evict(): Promise<void> {
+    const usages = await requestStore<TrackUsage[]>(ANALYSIS_USAGE_STORE, 'readonly', store => store.getAll());
+    const hashes = await requestStore<IDBValidKey[]>(ANALYSIS_STORE, 'readonly', store => store.getAllKeys());
+
+    // Tracks stored before their use was recorded cannot be ranked, so they go first
+    const known = new Set(usages.map(usage => usage.hash));
+    const stale = hashes.filter(hash => !known.has(hash as string)) as string[];
+
+    let total = usages.reduce((sum, usage) => sum + usage.bytes, 0);
+    const oldestFirst = [...usages].sort((a, b) => a.usedAt - b.usedAt);
+    while (total > this.maxBytes && oldestFirst.length > 1) {
+      const usage = oldestFirst.shift()!;
+      stale.push(usage.hash);
+      total -= usage.bytes;
+    }
+
+    for (const hash of stale) {
+      await requestStore(ANALYSIS_STORE, 'readwrite', store => store.delete(hash));
+      await requestStore(ANALYSIS_USAGE_STORE, 'readwrite', store => store.delete(hash));
+    }
+  }
+}
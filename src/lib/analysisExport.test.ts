@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ANALYSIS_EXPORT_VERSION, AnalysisExport, exportTrack, parseAnalysisExport, toCsv, toJson } from './analysisExport';
+import { analyseTrack } from './trackPrepass';
+import { clickTrack, FFT_SIZE, HOP_SIZE, SAMPLE_RATE } from '@/test/signals';
+
+/** A prepared track whose key and sections differ from what its frames would add up to */
+const prepared = (): AnalysisExport => {
+  const samples = clickTrack(120, 4, 0.3);
+  const track = analyseTrack({
+    hash: 'clicks',
+    left: samples,
+    right: Float32Array.from(samples),
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+    hopSize: HOP_SIZE,
+    sensitivity: 1
+  });
+
+  return exportTrack({
+    ...track,
+    key: { tonic: 9, mode: 'minor', confidence: 0.7 },
+    sections: [
+      { index: 0, label: 'A', kind: 'intro', start: 0 },
+      { index: 1, label: 'B', kind: 'chorus', start: 2.5 }
+    ]
+  });
+};
+
+describe('analysis export', () => {
+  const exported = prepared();
+
+  it('reads JSON back as it was written', () => {
+    expect(parseAnalysisExport(toJson(exported))).toEqual(exported);
+  });
+
+  it('reads CSV back with its frames and the summary it was written with', () => {
+    const parsed = parseAnalysisExport(toCsv(exported));
+
+    expect(parsed.schemaVersion).toBe(ANALYSIS_EXPORT_VERSION);
+    expect(parsed.frameRate).toBe(exported.frameRate);
+    expect(parsed.frames).toEqual(exported.frames);
+    expect(parsed.summary).toEqual(exported.summary);
+    expect(parsed.summary.key).toEqual({ tonic: 9, mode: 'minor', confidence: 0.7 });
+  });
+
+  it('reads a CSV whose summary has no sections', () => {
+    const empty = { ...exported, summary: { ...exported.summary, sections: [] } };
+    expect(parseAnalysisExport(toCsv(empty)).summary.sections).toEqual([]);
+  });
+
+  it('writes the schema version into both formats', () => {
+    expect(JSON.parse(toJson(exported)).schemaVersion).toBe(ANALYSIS_EXPORT_VERSION);
+
+    const [header, firstRow] = toCsv(exported).split('\n').filter(line => !line.startsWith('#'));
+    expect(header.split(',')[0]).toBe('schemaVersion');
+    expect(firstRow.split(',')[0]).toBe(String(ANALYSIS_EXPORT_VERSION));
+  });
+
+  it('refuses exports written under another schema version', () => {
+    const json = toJson({ ...exported, schemaVersion: ANALYSIS_EXPORT_VERSION - 1 });
+    const csv = toCsv({ ...exported, schemaVersion: ANALYSIS_EXPORT_VERSION + 1 });
+
+    expect(() => parseAnalysisExport(json)).toThrow(/schema/);
+    expect(() => parseAnalysisExport(csv)).toThrow(/schema/);
+  });
+
+  it('refuses text that is not an export', () => {
+    expect(() => parseAnalysisExport('')).toThrow(/empty/);
+    expect(() => parseAnalysisExport('time,tempo\n1,120')).toThrow(/not an analysis export/);
+    expect(() => parseAnalysisExport(`{"schemaVersion":${ANALYSIS_EXPORT_VERSION}}`)).toThrow(/missing/);
+    expect(() => parseAnalysisExport(toCsv(exported).replace(/^# .*\n/gm, ''))).toThrow(/summary/);
+    expect(() => parseAnalysisExport(toCsv(exported).replace(/\n(\d+),/, '\n$1,oops'))).toThrow(/Unreadable/);
+    expect(() => parseAnalysisExport('{"schemaVersion":')).toThrow();
+  });
+});
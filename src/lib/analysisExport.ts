@@ -0,0 +1,277 @@
+/**
+ * Analysis Export - Per-frame features and context with a track summary, as JSON or CSV
+ * Exports carry a schema version and read back in either format, summary included, for offline rendering or debugging
+ */
+
+import { AudioFeatures, MusicContext } from './musicBrain';
+import { decodeAnalysis } from './analysisFrame';
+import { dominantKey, MusicalKey } from './keyDetector';
+import { MOOD_NAMES, MoodName } from './moodModel';
+import { Section } from './sectionSegmenter';
+import { AnalysisTrack, trackFrameRate } from './trackPrepass';
+
+/** Bumped whenever the shape of an exported frame or summary changes */
+export const ANALYSIS_EXPORT_VERSION = 4;
+
+export type ExportFormat = 'json' | 'csv';
+
+export interface ExportedFrame {
+  /** Seconds from the start of the track or capture */
+  time: number;
+  features: AudioFeatures;
+  context: MusicContext;
+}
+
+export interface AnalysisSummary {
+  /** Seconds from the first frame to the last */
+  duration: number;
+  /** Tempo in BPM, each frame weighted by how confident the tracker was */
+  averageTempo: number;
+  key: MusicalKey;
+  /** Share of frames in each mood, 0-1 */
+  moods: Record<MoodName, number>;
+  sections: Section[];
+}
+
+export interface AnalysisExport {
+  schemaVersion: number;
+  /** Analysis frames per second the frames were taken at */
+  frameRate: number;
+  summary: AnalysisSummary;
+  frames: ExportedFrame[];
+}
+
+export const summarizeFrames = (frames: ExportedFrame[]): AnalysisSummary => {
+  const moods = Object.fromEntries(MOOD_NAMES.map(mood => [mood, 0])) as Record<MoodName, number>;
+  let tempoSum = 0;
+  let tempoWeight = 0;
+  const sections: Section[] = [];
+
+  for (const { features, context } of frames) {
+    moods[features.mood] += 1 / frames.length;
+    tempoSum += features.tempo * features.tempoConfidence;
+    tempoWeight += features.tempoConfidence;
+
+    const section = context.currentSection;
+    if (sections.length === 0 || sections[sections.length - 1].index !== section.index) sections.push(section);
+  }
+
+  const tempoMean = frames.reduce((sum, frame) => sum + frame.features.tempo, 0) / (frames.length || 1);
+
+  return {
+    duration: frames.length > 0 ? frames[frames.length - 1].time - frames[0].time : 0,
+    // Without any confidence at all, the plain mean is the best there is
+    averageTempo: tempoWeight > 0 ? tempoSum / tempoWeight : tempoMean,
+    key: dominantKey(frames.map(frame => frame.context.key)),
+    moods,
+    sections
+  };
+};
+
+export const createExport = (frames: ExportedFrame[], frameRate: number): AnalysisExport => ({
+  schemaVersion: ANALYSIS_EXPORT_VERSION,
+  frameRate,
+  summary: summarizeFrames(frames),
+  frames
+});
+
+/** Every frame of a pre-computed track, with the track's own sections and key in the summary */
+export const exportTrack = (track: AnalysisTrack): AnalysisExport => {
+  const frameRate = trackFrameRate(track);
+  const frames = Array.from({ length: track.frames.length / track.frameLength }, (_, i) => ({
+    time: (i + 1) / frameRate,
+    ...decodeAnalysis(track.frames.subarray(i * track.frameLength, (i + 1) * track.frameLength))
+  }));
+
+  const exported = createExport(frames, frameRate);
+  return { ...exported, summary: { ...exported.summary, key: track.key, sections: track.sections } };
+};
+
+/** Collects live frames until finished, for exporting what the brain made of a stretch of any source */
+export class AnalysisCapture {
+  private readonly frames: ExportedFrame[] = [];
+
+  /**
+   * @param frameRate Analysis frames per second
+   */
+  constructor(private readonly frameRate: number) {}
+
+  get count(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * @param time Seconds since the capture started
+   */
+  add(time: number, features: AudioFeatures, context: MusicContext): void {
+    this.frames.push({ time, features, context });
+  }
+
+  finish(): AnalysisExport {
+    return createExport(this.frames, this.frameRate);
+  }
+}
+
+type CsvValue = number | boolean | string | null;
+
+/** Leaves of a frame by dotted path, array items by index, e.g. "features.bands.bass" or "features.chroma.3" */
+const flatten = (value: unknown, path: string, out: Map<string, CsvValue>): void => {
+  if (value !== null && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) flatten(child, path ? `${path}.${key}` : key, out);
+  } else {
+    out.set(path, value as CsvValue);
+  }
+};
+
+/** Strings are always quoted and nothing else is, so "" reads back as an empty string and a bare empty cell as null */
+const toCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return `"${value.replace(/"/g, '""')}"`;
+  return String(value);
+};
+
+const fromCell = ({ text, quoted }: { text: string; quoted: boolean }): CsvValue => {
+  if (quoted) return text;
+  if (text === '') return null;
+  if (text === 'true' || text === 'false') return text === 'true';
+
+  const number = Number(text);
+  if (Number.isNaN(number) && text !== 'NaN') throw new Error(`Unreadable value "${text}" in the analysis CSV.`);
+  return number;
+};
+
+/** Splits one CSV line into cells, noting which were quoted */
+const parseCsvLine = (line: string): { text: string; quoted: boolean }[] => {
+  const cells: { text: string; quoted: boolean }[] = [];
+  let i = 0;
+
+  while (i <= line.length) {
+    if (line[i] === '"') {
+      let text = '';
+      i += 1;
+      while (i < line.length && !(line[i] === '"' && line[i + 1] !== '"')) {
+        text += line[i];
+        i += line[i] === '"' ? 2 : 1;
+      }
+      cells.push({ text, quoted: true });
+      i += 2;
+    } else {
+      const end = line.indexOf(',', i);
+      const stop = end === -1 ? line.length : end;
+      cells.push({ text: line.slice(i, stop), quoted: false });
+      i = stop + 1;
+    }
+  }
+
+  return cells;
+};
+
+/** Puts a value at a dotted path, creating arrays for numeric segments and objects for the rest */
+const assign = (target: Record<string, unknown>, path: string[], value: CsvValue): void => {
+  let node: Record<string, unknown> = target;
+  path.slice(0, -1).forEach((segment, i) => {
+    node[segment] ??= /^\d+$/.test(path[i + 1]) ? [] : {};
+    node = node[segment] as Record<string, unknown>;
+  });
+
+  // A field null in some frames and an object in others has both a column of its own and columns for its parts
+  const key = path[path.length - 1];
+  if (value === null && typeof node[key] === 'object' && node[key] !== null) return;
+  node[key] = value;
+};
+
+/** Objects whose every leaf is null were null when exported, as a frame with no chord */
+const collapseNulls = (value: unknown): unknown => {
+  if (value === null || typeof value !== 'object') return value;
+
+  const entries = Object.entries(value).map(([key, child]) => [key, collapseNulls(child)] as const);
+  if (entries.length > 0 && entries.every(([, child]) => child === null)) return null;
+  if (Array.isArray(value)) return entries.map(([, child]) => child);
+  return Object.fromEntries(entries);
+};
+
+/** Lines starting with this hold the summary above a CSV's header, one "path,value" pair each */
+const CSV_SUMMARY_PREFIX = '# ';
+
+/**
+ * The summary as "# summary.key.tonic,9"-style lines, then one row per frame. The schema version is
+ * repeated on every row so any slice of the file still says what it is.
+ */
+export const toCsv = (exported: AnalysisExport): string => {
+  const summary = new Map<string, CsvValue>();
+  flatten(exported.summary, 'summary', summary);
+  const summaryLines = [...summary].map(([path, value]) => `${CSV_SUMMARY_PREFIX}${path},${toCell(value)}`);
+
+  const rows = exported.frames.map(frame => {
+    const cells = new Map<string, CsvValue>([['schemaVersion', exported.schemaVersion], ['frameRate', exported.frameRate]]);
+    flatten(frame, '', cells);
+    return cells;
+  });
+  // Fields that are null in some frames, such as the chord, only show their parts in others
+  const columns = [...new Set(rows.flatMap(row => [...row.keys()]))];
+  if (columns.length === 0) columns.push('schemaVersion', 'frameRate');
+
+  return [
+    ...summaryLines,
+    columns.join(','),
+    ...rows.map(row => columns.map(column => toCell(row.get(column) ?? null)).join(','))
+  ].join('\n');
+};
+
+export const toJson = (exported: AnalysisExport): string => JSON.stringify(exported);
+
+const checkVersion = (version: unknown): void => {
+  if (version !== ANALYSIS_EXPORT_VERSION) {
+    throw new Error(`Analysis export schema ${String(version)} is not supported; this build reads schema ${ANALYSIS_EXPORT_VERSION}.`);
+  }
+};
+
+/** Reads the summary lines and frame rows of a CSV export */
+const parseCsv = (text: string): AnalysisExport => {
+  const allLines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const summaryLines = allLines.filter(line => line.startsWith(CSV_SUMMARY_PREFIX));
+  const [header, ...lines] = allLines.filter(line => !line.startsWith(CSV_SUMMARY_PREFIX));
+  if (!header) throw new Error('The analysis CSV is empty.');
+
+  const columns = parseCsvLine(header).map(cell => cell.text);
+  if (columns[0] !== 'schemaVersion') throw new Error('This CSV is not an analysis export.');
+
+  let frameRate = 0;
+  const frames = lines.map(line => {
+    const row: Record<string, unknown> = {};
+    parseCsvLine(line).forEach((cell, i) => {
+      if (columns[i]) assign(row, columns[i].split('.'), fromCell(cell));
+    });
+    checkVersion(row.schemaVersion);
+    frameRate = Number(row.frameRate);
+
+    return collapseNulls({ time: row.time, features: row.features, context: row.context }) as ExportedFrame;
+  });
+
+  const parsed: Record<string, unknown> = {};
+  for (const line of summaryLines) {
+    const [path, value] = parseCsvLine(line.slice(CSV_SUMMARY_PREFIX.length));
+    assign(parsed, path.text.split('.'), fromCell(value ?? { text: '', quoted: false }));
+  }
+  if (!parsed.summary) throw new Error('The analysis CSV is missing its summary.');
+
+  // An empty section list leaves no lines behind
+  const summary = { sections: [], ...(parsed.summary as Partial<AnalysisSummary>) } as AnalysisSummary;
+  return { schemaVersion: ANALYSIS_EXPORT_VERSION, frameRate, summary, frames };
+};
+
+/**
+ * Reads an export back from either format.
+ * @throws Error if the text is neither format or was written under another schema version
+ */
+export const parseAnalysisExport = (text: string): AnalysisExport => {
+  if (!text.trimStart().startsWith('{')) return parseCsv(text);
+
+  const data = JSON.parse(text) as Partial<AnalysisExport>;
+  checkVersion(data.schemaVersion);
+  if (!Array.isArray(data.frames) || typeof data.frameRate !== 'number' || !data.summary) {
+    throw new Error('The analysis JSON is missing its frames, frame rate or summary.');
+  }
+
+  return data as AnalysisExport;
+};
@@ -0,0 +1,277 @@
+/**
+ * Analysis Frame - Compact Float32Array encoding of one Music Brain result
+ * Lets the analysis worker hand frames to the UI as transferables instead of cloned objects
+ */
+
+import { AudioFeatures, FREQUENCY_BANDS, FrequencyBands, MusicContext } from './musicBrain';
+import { KeyMode } from './keyDetector';
+import { CHORD_QUALITIES } from './chordRecognizer';
+import { SpectralDescriptors } from './spectralDescriptors';
+import { describePitch } from './pitchDetector';
+import { LoudnessReading } from './loudnessMeter';
+import { MOOD_NAMES } from './moodModel';
+import { Genre, GENRES, GenreHint } from './genreClassifier';
+import { Section, SECTION_KINDS } from './sectionSegmenter';
+import { PERCUSSION_KINDS, PercussionHits } from './onsetDetector';
+import { MEL_BAND_COUNT, MFCC_COUNT } from './timbre';
+import { StereoField } from './stereoField';
+import { ENVELOPED_FEATURES, EnvelopedFeatures, EnvelopeOverrides } from './envelopeFollower';
+
+const GENRE_HINTS: GenreHint[] = [...GENRES, 'mixed'];
+const KEY_MODES: KeyMode[] = ['major', 'minor'];
+const PITCH_CLASS_COUNT = 12;
+
+const NUMERIC_FEATURES = [
+  'bass', 'mid', 'treble', 'rhythm', 'melody', 'harmony', 'dynamics', 'energy', 'tempo', 'tempoConfidence', 'onset', 'valence', 'arousal'
+] as const;
+const NUMERIC_CONTEXT = ['instrumentalDensity', 'emotionalIntensity'] as const;
+const BAND_KEYS = Object.keys(FREQUENCY_BANDS) as (keyof FrequencyBands)[];
+const SPECTRAL_KEYS: (keyof SpectralDescriptors)[] = ['centroid', 'rolloff', 'flatness', 'flux', 'crest'];
+const LOUDNESS_KEYS: (keyof LoudnessReading)[] = ['momentary', 'shortTerm', 'peak', 'rms', 'gain'];
+const STEREO_KEYS = ['width', 'balance', 'correlation'] as const;
+
+const BAND_SLOT = NUMERIC_FEATURES.length;
+const MOOD_SLOT = BAND_SLOT + BAND_KEYS.length;
+const CONTEXT_SLOT = MOOD_SLOT + 1;
+const BEAT_DROP_SLOT = CONTEXT_SLOT + NUMERIC_CONTEXT.length;
+const VOCAL_SLOT = BEAT_DROP_SLOT + 1;
+const GENRE_SLOT = VOCAL_SLOT + 1;
+const BEAT_PHASE_SLOT = GENRE_SLOT + 1;
+const BEAT_INDEX_SLOT = BEAT_PHASE_SLOT + 1;
+const BAR_POSITION_SLOT = BEAT_INDEX_SLOT + 1;
+const NEXT_BEAT_SLOT = BAR_POSITION_SLOT + 1;
+const PERCUSSION_SLOT = NEXT_BEAT_SLOT + 1;
+const CHROMA_SLOT = PERCUSSION_SLOT + PERCUSSION_KINDS.length;
+const KEY_TONIC_SLOT = CHROMA_SLOT + PITCH_CLASS_COUNT;
+const KEY_MODE_SLOT = KEY_TONIC_SLOT + 1;
+const KEY_CONFIDENCE_SLOT = KEY_MODE_SLOT + 1;
+const CHORD_ROOT_SLOT = KEY_CONFIDENCE_SLOT + 1;
+const CHORD_QUALITY_SLOT = CHORD_ROOT_SLOT + 1;
+const CHORD_CHANGE_SLOT = CHORD_QUALITY_SLOT + 1;
+const SPECTRAL_SLOT = CHORD_CHANGE_SLOT + 1;
+const PITCH_FREQUENCY_SLOT = SPECTRAL_SLOT + SPECTRAL_KEYS.length;
+const PITCH_CONFIDENCE_SLOT = PITCH_FREQUENCY_SLOT + 1;
+const LOUDNESS_SLOT = PITCH_CONFIDENCE_SLOT + 1;
+const SECTION_INDEX_SLOT = LOUDNESS_SLOT + LOUDNESS_KEYS.length;
+const SECTION_LABEL_SLOT = SECTION_INDEX_SLOT + 1;
+const SECTION_KIND_SLOT = SECTION_LABEL_SLOT + 1;
+const SECTION_START_SLOT = SECTION_KIND_SLOT + 1;
+const SECTION_CHANGE_SLOT = SECTION_START_SLOT + 1;
+const BUILD_UP_SLOT = SECTION_CHANGE_SLOT + 1;
+const DROP_IN_SLOT = BUILD_UP_SLOT + 1;
+const GENRE_PROBABILITY_SLOT = DROP_IN_SLOT + 1;
+const MEL_SLOT = GENRE_PROBABILITY_SLOT + GENRES.length;
+const MFCC_SLOT = MEL_SLOT + MEL_BAND_COUNT;
+const STEREO_SLOT = MFCC_SLOT + MFCC_COUNT;
+const PANNING_SLOT = STEREO_SLOT + STEREO_KEYS.length;
+
+const SMOOTHED_SLOT = PANNING_SLOT + BAND_KEYS.length;
+const SMOOTHED_BAND_SLOT = SMOOTHED_SLOT + ENVELOPED_FEATURES.length;
+
+export const ANALYSIS_FRAME_LENGTH = SMOOTHED_BAND_SLOT + BAND_KEYS.length;
+
+/** Slots holding categories or flags; these snap to the newer frame instead of blending */
+const DISCRETE_SLOTS = new Set([
+  MOOD_SLOT, BEAT_DROP_SLOT, VOCAL_SLOT, GENRE_SLOT, BEAT_INDEX_SLOT, BAR_POSITION_SLOT, KEY_TONIC_SLOT, KEY_MODE_SLOT,
+  CHORD_ROOT_SLOT, CHORD_QUALITY_SLOT, CHORD_CHANGE_SLOT,
+  SECTION_INDEX_SLOT, SECTION_LABEL_SLOT, SECTION_KIND_SLOT, SECTION_START_SLOT, SECTION_CHANGE_SLOT,
+  // Blending into or out of "no drop predicted" would count down from nonsense
+  DROP_IN_SLOT,
+  // The countdown restarts at every beat; blending across one would predict a beat half a beat away
+  NEXT_BEAT_SLOT,
+  // Blending towards or away from an unvoiced 0 Hz would sweep through pitches nobody sang
+  PITCH_FREQUENCY_SLOT,
+  ...PERCUSSION_KINDS.map((_, i) => PERCUSSION_SLOT + i)
+]);
+/** Slots holding a 0-1 cycle; these blend the short way round, through the wrap */
+const CYCLIC_SLOTS = new Set([BEAT_PHASE_SLOT]);
+
+export type AnalysisRequest =
+  | { type: 'analyze'; session: number; spectrum: Float32Array; waveform: Float32Array; stereo: { left: Float32Array; right: Float32Array } | null }
+  | { type: 'configure'; sampleRate: number; fftSize: number; hopSize: number }
+  | { type: 'tap'; bpm?: number }
+  | { type: 'sensitivity'; sensitivity: number }
+  | { type: 'envelopes'; overrides: EnvelopeOverrides };
+
+export interface AnalysisResponse {
+  type: 'frame';
+  session: number;
+  spectrum: Float32Array;
+  frame: Float32Array;
+}
+
+export const encodeAnalysis = (features: AudioFeatures, context: MusicContext): Float32Array => {
+  const frame = new Float32Array(ANALYSIS_FRAME_LENGTH);
+
+  NUMERIC_FEATURES.forEach((key, i) => {
+    frame[i] = features[key];
+  });
+  BAND_KEYS.forEach((key, i) => {
+    frame[BAND_SLOT + i] = features.bands[key];
+  });
+  frame[MOOD_SLOT] = MOOD_NAMES.indexOf(features.mood);
+  NUMERIC_CONTEXT.forEach((key, i) => {
+    frame[CONTEXT_SLOT + i] = context[key];
+  });
+  frame[BEAT_DROP_SLOT] = context.beatDrop ? 1 : 0;
+  frame[VOCAL_SLOT] = context.vocalPresence ? 1 : 0;
+  frame[GENRE_SLOT] = GENRE_HINTS.indexOf(context.genreHint);
+  frame[BEAT_PHASE_SLOT] = context.beatPhase;
+  frame[BEAT_INDEX_SLOT] = context.beatIndex;
+  frame[BAR_POSITION_SLOT] = context.barPosition;
+  frame[NEXT_BEAT_SLOT] = context.nextBeatIn;
+  PERCUSSION_KINDS.forEach((kind, i) => {
+    frame[PERCUSSION_SLOT + i] = context.percussion[kind];
+  });
+  frame.set(features.chroma.slice(0, PITCH_CLASS_COUNT), CHROMA_SLOT);
+  frame[KEY_TONIC_SLOT] = context.key.tonic;
+  frame[KEY_MODE_SLOT] = KEY_MODES.indexOf(context.key.mode);
+  frame[KEY_CONFIDENCE_SLOT] = context.key.confidence;
+  // A root of -1 marks "no chord"
+  frame[CHORD_ROOT_SLOT] = context.chord ? context.chord.root : -1;
+  frame[CHORD_QUALITY_SLOT] = context.chord ? CHORD_QUALITIES.indexOf(context.chord.quality) : 0;
+  frame[CHORD_CHANGE_SLOT] = context.chordChange ? 1 : 0;
+  SPECTRAL_KEYS.forEach((key, i) => {
+    frame[SPECTRAL_SLOT + i] = features.spectral[key];
+  });
+  frame[PITCH_FREQUENCY_SLOT] = features.pitch.frequency;
+  frame[PITCH_CONFIDENCE_SLOT] = features.pitch.confidence;
+  LOUDNESS_KEYS.forEach((key, i) => {
+    frame[LOUDNESS_SLOT + i] = features.loudness[key];
+  });
+  writeSection(frame, context.currentSection, context.sectionChange);
+  frame[BUILD_UP_SLOT] = context.buildUpProgress;
+  // -1 marks "no drop predicted"
+  frame[DROP_IN_SLOT] = context.dropIn ?? -1;
+  GENRES.forEach((genre, i) => {
+    frame[GENRE_PROBABILITY_SLOT + i] = context.genreProbabilities[genre];
+  });
+  frame.set(features.mel.slice(0, MEL_BAND_COUNT), MEL_SLOT);
+  frame.set(features.mfcc.slice(0, MFCC_COUNT), MFCC_SLOT);
+  STEREO_KEYS.forEach((key, i) => {
+    frame[STEREO_SLOT + i] = features.stereo[key];
+  });
+  BAND_KEYS.forEach((key, i) => {
+    frame[PANNING_SLOT + i] = features.stereo.panning[key];
+  });
+  ENVELOPED_FEATURES.forEach((key, i) => {
+    frame[SMOOTHED_SLOT + i] = features.smoothed[key];
+  });
+  BAND_KEYS.forEach((key, i) => {
+    frame[SMOOTHED_BAND_SLOT + i] = features.smoothed.bands[key];
+  });
+
+  return frame;
+};
+
+/** Overwrites an encoded frame's section, as when a file's pre-computed structure is known better */
+export const writeSection = (frame: Float32Array, section: Section, sectionChange: boolean): void => {
+  frame[SECTION_INDEX_SLOT] = section.index;
+  frame[SECTION_LABEL_SLOT] = section.label.charCodeAt(0) - 65;
+  frame[SECTION_KIND_SLOT] = SECTION_KINDS.indexOf(section.kind);
+  frame[SECTION_START_SLOT] = section.start;
+  frame[SECTION_CHANGE_SLOT] = sectionChange ? 1 : 0;
+};
+
+/** Overwrites an encoded frame's wait for the next beat, as when a file's beats are known in advance */
+export const writeNextBeat = (frame: Float32Array, seconds: number): void => {
+  frame[NEXT_BEAT_SLOT] = seconds;
+};
+
+export const decodeAnalysis = (frame: Float32Array): { features: AudioFeatures; context: MusicContext } => {
+  const features = {
+    mood: MOOD_NAMES[frame[MOOD_SLOT]] ?? 'calm',
+    bands: {},
+    spectral: {},
+    loudness: {},
+    stereo: { panning: {} } as StereoField,
+    smoothed: { bands: {} } as EnvelopedFeatures,
+    chroma: Array.from(frame.subarray(CHROMA_SLOT, CHROMA_SLOT + PITCH_CLASS_COUNT)),
+    mel: Array.from(frame.subarray(MEL_SLOT, MEL_SLOT + MEL_BAND_COUNT)),
+    mfcc: Array.from(frame.subarray(MFCC_SLOT, MFCC_SLOT + MFCC_COUNT)),
+    pitch: describePitch(frame[PITCH_FREQUENCY_SLOT], frame[PITCH_CONFIDENCE_SLOT])
+  } as AudioFeatures;
+  NUMERIC_FEATURES.forEach((key, i) => {
+    features[key] = frame[i];
+  });
+  BAND_KEYS.forEach((key, i) => {
+    features.bands[key] = frame[BAND_SLOT + i];
+  });
+  SPECTRAL_KEYS.forEach((key, i) => {
+    features.spectral[key] = frame[SPECTRAL_SLOT + i];
+  });
+  LOUDNESS_KEYS.forEach((key, i) => {
+    features.loudness[key] = frame[LOUDNESS_SLOT + i];
+  });
+  STEREO_KEYS.forEach((key, i) => {
+    features.stereo[key] = frame[STEREO_SLOT + i];
+  });
+  BAND_KEYS.forEach((key, i) => {
+    features.stereo.panning[key] = frame[PANNING_SLOT + i];
+  });
+  ENVELOPED_FEATURES.forEach((key, i) => {
+    features.smoothed[key] = frame[SMOOTHED_SLOT + i];
+  });
+  BAND_KEYS.forEach((key, i) => {
+    features.smoothed.bands[key] = frame[SMOOTHED_BAND_SLOT + i];
+  });
+
+  const context = {
+    beatDrop: frame[BEAT_DROP_SLOT] > 0.5,
+    buildUpProgress: frame[BUILD_UP_SLOT],
+    dropIn: frame[DROP_IN_SLOT] >= 0 ? frame[DROP_IN_SLOT] : null,
+    vocalPresence: frame[VOCAL_SLOT] > 0.5,
+    genreHint: GENRE_HINTS[frame[GENRE_SLOT]] ?? 'mixed',
+    genreProbabilities: {} as Record<Genre, number>,
+    beatPhase: frame[BEAT_PHASE_SLOT],
+    beatIndex: frame[BEAT_INDEX_SLOT],
+    barPosition: frame[BAR_POSITION_SLOT],
+    nextBeatIn: frame[NEXT_BEAT_SLOT],
+    percussion: {} as PercussionHits,
+    key: {
+      tonic: frame[KEY_TONIC_SLOT],
+      mode: KEY_MODES[frame[KEY_MODE_SLOT]] ?? 'major',
+      confidence: frame[KEY_CONFIDENCE_SLOT]
+    },
+    chord: frame[CHORD_ROOT_SLOT] >= 0
+      ? { root: frame[CHORD_ROOT_SLOT], quality: CHORD_QUALITIES[frame[CHORD_QUALITY_SLOT]] ?? 'maj' }
+      : null,
+    chordChange: frame[CHORD_CHANGE_SLOT] > 0.5,
+    currentSection: {
+      index: frame[SECTION_INDEX_SLOT],
+      label: String.fromCharCode(65 + frame[SECTION_LABEL_SLOT]),
+      kind: SECTION_KINDS[frame[SECTION_KIND_SLOT]] ?? 'verse',
+      start: frame[SECTION_START_SLOT]
+    },
+    sectionChange: frame[SECTION_CHANGE_SLOT] > 0.5
+  } as MusicContext;
+  NUMERIC_CONTEXT.forEach((key, i) => {
+    context[key] = frame[CONTEXT_SLOT + i];
+  });
+  PERCUSSION_KINDS.forEach((kind, i) => {
+    context.percussion[kind] = frame[PERCUSSION_SLOT + i];
+  });
+  GENRES.forEach((genre, i) => {
+    context.genreProbabilities[genre] = frame[GENRE_PROBABILITY_SLOT + i];
+  });
+
+  return { features, context };
+};
+
+export const interpolateFrames = (from: Float32Array, to: Float32Array, t: number): Float32Array => {
+  const blended = new Float32Array(to.length);
+
+  for (let i = 0; i < to.length; i++) {
+    if (DISCRETE_SLOTS.has(i)) {
+      blended[i] = to[i];
+    } else if (CYCLIC_SLOTS.has(i)) {
+      const delta = to[i] - from[i];
+      const shortest = delta - Math.round(delta);
+      blended[i] = (from[i] + shortest * t + 1) % 1;
+    } else {
+      blended[i] = from[i] + (to[i] - from[i]) * t;
+    }
+  }
+
+  return blended;
+};
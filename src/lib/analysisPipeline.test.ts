@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisPipeline } from './analysisPipeline';
+import { AudioSource } from './audioSource';
+import { OfflineAnalyser } from './offlineAnalyser';
+import { clickTimes, clickTrack, FFT_SIZE, HOP_SIZE, SAMPLE_RATE } from '@/test/signals';
+
+/** Plays samples by the clock: each read hears the audio up to the current moment, as a live source would */
+class PlayedSource implements AudioSource {
+  readonly kind = 'demo' as const;
+  readonly sampleRate = SAMPLE_RATE;
+  readonly fftSize = FFT_SIZE;
+
+  private readonly analyser = new OfflineAnalyser(FFT_SIZE);
+  private readonly startedAt = performance.now();
+  private end = 0;
+
+  constructor(private readonly samples: Float32Array) {}
+
+  async start(): Promise<void> {}
+  stop(): void {}
+  dispose(): void {}
+
+  getFrequencyData(): number[] {
+    this.end = Math.round(((performance.now() - this.startedAt) / 1000) * SAMPLE_RATE);
+    return this.analyser.analyse(this.samples, this.end);
+  }
+
+  getTimeDomainData(): number[] {
+    return Array.from(this.samples.subarray(Math.max(0, this.end - FFT_SIZE), this.end));
+  }
+
+  getStereoTimeDomainData(): null {
+    return null;
+  }
+}
+
+describe('AnalysisPipeline beats', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'setTimeout', 'clearTimeout', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([70, 120, 174])('sends the beats of a %i BPM click track within 10 ms of each click', bpm => {
+    const seconds = 16;
+    const clicks = clickTimes(bpm, seconds, 0.3);
+    const pipeline = new AnalysisPipeline(HOP_SIZE);
+    const startedAt = performance.now();
+    const beats: number[] = [];
+    pipeline.onBeat(() => beats.push((performance.now() - startedAt) / 1000));
+
+    pipeline.start(new PlayedSource(clickTrack(bpm, seconds, 0.3)));
+    vi.advanceTimersByTime(seconds * 1000);
+    pipeline.dispose();
+
+    // Once tempo and phase have settled, and before the clicks stop
+    const settled = beats.filter(time => time > 8 && time < 15);
+    const errors = settled.map(time => Math.min(...clicks.map(click => Math.abs(click - time))));
+
+    expect(settled.length).toBeGreaterThan(((15 - 8) * bpm) / 60 - 2);
+    expect(Math.max(...errors)).toBeLessThan(0.01);
+  });
+});
@@ -0,0 +1,468 @@
+/**
+ * Analysis Pipeline - Feeds an AudioSource to the analysis worker at a fixed hop size
+ * Analysis runs at the hop rate while rendering samples interpolated snapshots at its own rate
+ */
+
+import { AudioSource } from './audioSource';
+import { AudioFeatures, MusicBrain, MusicContext } from './musicBrain';
+import {
+  AnalysisRequest,
+  AnalysisResponse,
+  decodeAnalysis,
+  encodeAnalysis,
+  interpolateFrames,
+  writeNextBeat,
+  writeSection
+} from './analysisFrame';
+import { BEATS_PER_BAR } from './beatTracker';
+import { AudioFileSource } from './fileSource';
+import { EnvelopeOverrides } from './envelopeFollower';
+import { Genre, GenreDumpRecorder, GenreFeatureDump } from './genreClassifier';
+import { sectionAt } from './sectionSegmenter';
+import { AnalysisCache } from './analysisCache';
+import { AnalysisCapture, AnalysisExport, exportTrack } from './analysisExport';
+import {
+  analyseTrack,
+  AnalysisTrack,
+  PrepassRequest,
+  PrepassResponse,
+  splitChannels,
+  trackFrameAt,
+  TrackLookahead,
+  trackLookahead
+} from './trackPrepass';
+
+export const DEFAULT_HOP_SIZE = 1024;
+/** Bins in the spectrum handed to renderers, whatever FFT size the source analyses at */
+export const DISPLAY_BINS = 128;
+
+/** Frames the worker may fall behind by before new hops are dropped */
+const MAX_FRAMES_IN_FLIGHT = 3;
+/** Taps further apart than this start a new tap-tempo measurement */
+const TAP_RESET_MS = 2000;
+/** Most recent taps averaged into the tapped tempo */
+const MAX_TAPS = 8;
+
+export interface AnalysisSnapshot {
+  spectrum: number[];
+  features: AudioFeatures | null;
+  context: MusicContext | null;
+}
+
+export interface BeatEvent {
+  beatIndex: number;
+  /** Beat within the bar, 0 on the downbeat */
+  barPosition: number;
+  tempo: number;
+}
+
+type BeatListener = (event: BeatEvent) => void;
+type FrameListener = (features: AudioFeatures, context: MusicContext) => void;
+
+interface ReceivedFrame {
+  receivedAt: number;
+  spectrum: Float32Array;
+  frame: Float32Array;
+}
+
+/** Averages neighbouring bins so every source gives renderers the same linear layout */
+const toDisplaySpectrum = (spectrum: Float32Array): Float32Array => {
+  if (spectrum.length <= DISPLAY_BINS) return spectrum;
+
+  const group = spectrum.length / DISPLAY_BINS;
+  return Float32Array.from({ length: DISPLAY_BINS }, (_, bin) => {
+    const start = Math.floor(bin * group);
+    const end = Math.floor((bin + 1) * group);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += spectrum[i];
+    return sum / (end - start);
+  });
+};
+
+export class AnalysisPipeline {
+  private worker: Worker | null = null;
+  private fallbackBrain: MusicBrain | null = null;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private hopDuration = 0;
+  private framesInFlight = 0;
+  private session = 0;
+  private previous: ReceivedFrame | null = null;
+  private latest: ReceivedFrame | null = null;
+  private lastBeatIndex = 0;
+  /** Timer that emits the next beat when it is predicted to sound */
+  private beatTimer: ReturnType<typeof setTimeout> | undefined;
+  private taps: number[] = [];
+  private sensitivity = 1;
+  private envelopes: EnvelopeOverrides = {};
+  private source: AudioSource | null = null;
+  /** Decoded track the pre-pass last ran on, and its analysis once it has finished or come from the cache */
+  private preparedBuffer: AudioBuffer | null = null;
+  private track: AnalysisTrack | null = null;
+  private readonly cache = new AnalysisCache();
+  private lastSectionIndex = 0;
+  private prepassWorker: Worker | null = null;
+  private recorder: GenreDumpRecorder | null = null;
+  private capture: { startedAt: number; frames: AnalysisCapture } | null = null;
+  private readonly beatListeners = new Set<BeatListener>();
+  private readonly barListeners = new Set<BeatListener>();
+  private readonly frameListeners = new Set<FrameListener>();
+
+  onFrame: ((features: AudioFeatures, context: MusicContext) => void) | null = null;
+
+  constructor(readonly hopSize = DEFAULT_HOP_SIZE) {
+    try {
+      this.worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+        // Frames still in flight when the source changed belong to an older session
+        if (event.data.session !== this.session) return;
+        this.framesInFlight = Math.max(0, this.framesInFlight - 1);
+        this.receive(event.data.spectrum, event.data.frame);
+      };
+    } catch {
+      // Workers can be unavailable (old browsers, some embedded views); analyse inline instead
+      this.worker = null;
+      this.fallbackBrain = new MusicBrain();
+    }
+  }
+
+  /** Milliseconds between analysis hops for the running source */
+  get hopInterval(): number {
+    return this.hopDuration;
+  }
+
+  start(source: AudioSource): void {
+    this.stop();
+    this.reset(source);
+
+    this.source = source;
+    this.hopDuration = (this.hopSize / source.sampleRate) * 1000;
+    this.timer = setInterval(() => this.submit(source), this.hopDuration);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    clearTimeout(this.beatTimer);
+    this.timer = undefined;
+    this.beatTimer = undefined;
+    this.source = null;
+  }
+
+  /** Blends the two most recent frames according to how far the current hop has progressed */
+  sample(now = performance.now()): AnalysisSnapshot {
+    if (!this.latest) return { spectrum: [], features: null, context: null };
+
+    const from = this.previous ?? this.latest;
+    const t = this.hopDuration > 0 ? Math.min(1, (now - this.latest.receivedAt) / this.hopDuration) : 1;
+
+    const spectrum = Array.from(this.latest.spectrum, (value, i) => {
+      const start = from.spectrum[i] ?? value;
+      return start + (value - start) * t;
+    });
+    const { features, context } = decodeAnalysis(interpolateFrames(from.frame, this.latest.frame, t));
+
+    return { spectrum, features, context };
+  }
+
+  /** True while a file plays from its pre-computed analysis rather than live analysis */
+  get isPrepared(): boolean {
+    return this.track !== null && this.source instanceof AudioFileSource;
+  }
+
+  /** What the rest of a prepared file holds over the next `seconds`; null while analysis is live */
+  lookahead(seconds: number): TrackLookahead | null {
+    if (!this.track || !(this.source instanceof AudioFileSource)) return null;
+    return trackLookahead(this.track, this.source.currentTime, seconds);
+  }
+
+  /** Subscribes to every analysed frame, for readers besides the one onFrame callback; returns the unsubscribe function */
+  onAnalysis(listener: FrameListener): () => void {
+    this.frameListeners.add(listener);
+    return () => this.frameListeners.delete(listener);
+  }
+
+  /** Subscribes to every tracked beat; returns the unsubscribe function */
+  onBeat(listener: BeatListener): () => void {
+    this.beatListeners.add(listener);
+    return () => this.beatListeners.delete(listener);
+  }
+
+  /** Subscribes to downbeats only; returns the unsubscribe function */
+  onBar(listener: BeatListener): () => void {
+    this.barListeners.add(listener);
+    return () => this.barListeners.delete(listener);
+  }
+
+  /** Marks a beat now; repeated taps also set the tempo */
+  tap(now = performance.now()): void {
+    if (this.taps.length > 0 && now - this.taps[this.taps.length - 1] > TAP_RESET_MS) this.taps = [];
+    this.taps = [...this.taps, now].slice(-MAX_TAPS);
+
+    const span = this.taps[this.taps.length - 1] - this.taps[0];
+    const bpm = this.taps.length >= 2 ? (60000 * (this.taps.length - 1)) / span : undefined;
+
+    if (this.worker) {
+      this.post({ type: 'tap', bpm });
+    } else {
+      this.fallbackBrain?.tap(bpm);
+    }
+  }
+
+  /**
+   * Gain on top of loudness normalization, as a linear factor; kept across source changes. A file
+   * playing from its prepared analysis keeps the sensitivity it was prepared at, which was the
+   * setting when it loaded.
+   */
+  setSensitivity(sensitivity: number): void {
+    this.sensitivity = sensitivity;
+
+    if (this.worker) {
+      this.post({ type: 'sensitivity', sensitivity });
+    } else {
+      this.fallbackBrain?.setSensitivity(sensitivity);
+    }
+  }
+
+  /** Attack, release and hold times for the smoothed features; kept across source changes */
+  setEnvelopes(overrides: EnvelopeOverrides): void {
+    this.envelopes = overrides;
+
+    if (this.worker) {
+      this.post({ type: 'envelopes', overrides });
+    } else {
+      this.fallbackBrain?.setEnvelopes(overrides);
+    }
+  }
+
+  /** Summaries recorded since startRecording, null when not recording */
+  get recordedSummaries(): number | null {
+    return this.recorder ? this.recorder.count : null;
+  }
+
+  /** Starts collecting feature summaries labelled with a genre, for retraining the genre model */
+  startRecording(label: Genre): void {
+    const frameRate = this.hopDuration > 0 ? 1000 / this.hopDuration : 44100 / this.hopSize;
+    this.recorder = new GenreDumpRecorder(label, frameRate);
+  }
+
+  /** Ends a recording and returns its dump, or null if none was running */
+  stopRecording(): GenreFeatureDump | null {
+    const dump = this.recorder?.dump() ?? null;
+    this.recorder = null;
+    return dump;
+  }
+
+  /** Frames captured since startCapture, null when not capturing */
+  get capturedFrames(): number | null {
+    return this.capture ? this.capture.frames.count : null;
+  }
+
+  /** Starts keeping every analysed frame for export */
+  startCapture(): void {
+    const frameRate = this.hopDuration > 0 ? 1000 / this.hopDuration : 44100 / this.hopSize;
+    this.capture = { startedAt: performance.now(), frames: new AnalysisCapture(frameRate) };
+  }
+
+  /** Ends a capture and returns its export, or null if none was running */
+  stopCapture(): AnalysisExport | null {
+    const exported = this.capture?.frames.finish() ?? null;
+    this.capture = null;
+    return exported;
+  }
+
+  /** The whole of a prepared file's analysis, null while analysis is live */
+  exportPrepared(): AnalysisExport | null {
+    return this.track && this.source instanceof AudioFileSource ? exportTrack(this.track) : null;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.worker?.terminate();
+    this.worker = null;
+    this.prepassWorker?.terminate();
+    this.prepassWorker = null;
+    this.recorder = null;
+    this.capture = null;
+    this.onFrame = null;
+    this.beatListeners.clear();
+    this.barListeners.clear();
+    this.frameListeners.clear();
+  }
+
+  private reset(source: AudioSource): void {
+    clearTimeout(this.beatTimer);
+    this.session += 1;
+    this.previous = null;
+    this.latest = null;
+    this.framesInFlight = 0;
+    this.lastBeatIndex = 0;
+    this.lastSectionIndex = 0;
+    this.taps = [];
+
+    if (this.worker) {
+      this.post({ type: 'configure', sampleRate: source.sampleRate, fftSize: source.fftSize, hopSize: this.hopSize });
+      this.post({ type: 'sensitivity', sensitivity: this.sensitivity });
+      this.post({ type: 'envelopes', overrides: this.envelopes });
+    } else {
+      this.fallbackBrain = new MusicBrain(source.sampleRate, source.fftSize, this.hopSize);
+      this.fallbackBrain.setSensitivity(this.sensitivity);
+      this.fallbackBrain.setEnvelopes(this.envelopes);
+    }
+  }
+
+  private submit(source: AudioSource): void {
+    const raw = source.getFrequencyData();
+    if (raw.length === 0) return;
+    if (source instanceof AudioFileSource) this.prepare(source);
+
+    // Sent as heard: the brain applies its own gain, set by loudness normalization and sensitivity
+    const spectrum = Float32Array.from(raw);
+
+    // A prepared file is read from its analysis; only the displayed spectrum still comes live
+    if (this.track && source instanceof AudioFileSource) {
+      this.receive(spectrum, trackFrameAt(this.track, source.currentTime));
+      return;
+    }
+
+    const waveform = Float32Array.from(source.getTimeDomainData());
+    const channels = source.getStereoTimeDomainData();
+
+    if (!this.worker) {
+      const { features, context } = this.fallbackBrain!.analyzeAudio(Array.from(spectrum), Array.from(waveform), channels);
+      this.receive(spectrum, encodeAnalysis(features, context));
+      return;
+    }
+
+    if (this.framesInFlight >= MAX_FRAMES_IN_FLIGHT) return;
+    this.framesInFlight += 1;
+
+    const stereo = channels && { left: Float32Array.from(channels.left), right: Float32Array.from(channels.right) };
+    const transfer = [spectrum.buffer, waveform.buffer, ...(stereo ? [stereo.left.buffer, stereo.right.buffer] : [])];
+    this.post({ type: 'analyze', session: this.session, spectrum, waveform, stereo }, transfer);
+  }
+
+  /**
+   * Finds a newly loaded file's analysis in the cache or starts a pre-pass over it; until either is
+   * done, live analysis stands in. Call it as soon as a file loads, so the pre-pass runs before the
+   * file is played; playback calls it too, for files loaded without it.
+   */
+  prepare(source: AudioFileSource): void {
+    const buffer = source.decodedBuffer;
+    if (!buffer || buffer === this.preparedBuffer) return;
+
+    this.preparedBuffer = buffer;
+    this.track = null;
+    this.prepassWorker?.terminate();
+    this.prepassWorker = null;
+
+    const hash = source.fileHash;
+    const { fftSize } = source;
+    const { sensitivity } = this;
+    const cached = hash ? this.cache.get(hash, fftSize, this.hopSize, sensitivity).catch(() => null) : Promise.resolve(null);
+    cached.then(track => {
+      // Another file may have been loaded while the cache was read
+      if (buffer !== this.preparedBuffer) return;
+      if (track) {
+        this.useTrack(track);
+        return;
+      }
+
+      const channels = splitChannels(buffer);
+      this.runPrepass(
+        { hash: hash ?? '', ...channels, sampleRate: buffer.sampleRate, fftSize, hopSize: this.hopSize, sensitivity },
+        buffer
+      );
+    });
+  }
+
+  private runPrepass(request: PrepassRequest, buffer: AudioBuffer): void {
+    try {
+      this.prepassWorker = new Worker(new URL('../workers/prepass.worker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      this.finishPrepass(analyseTrack(request));
+      return;
+    }
+
+    this.prepassWorker.onmessage = (event: MessageEvent<PrepassResponse>) => {
+      this.prepassWorker?.terminate();
+      this.prepassWorker = null;
+      if (buffer === this.preparedBuffer) this.finishPrepass(event.data.track);
+    };
+    this.prepassWorker.postMessage(request, [request.left.buffer, request.right.buffer]);
+  }
+
+  private finishPrepass(track: AnalysisTrack): void {
+    this.useTrack(track);
+    // Caching is a speed-up only; storage may be full or unavailable
+    if (track.hash) this.cache.put(track).catch(() => undefined);
+  }
+
+  private useTrack(track: AnalysisTrack): void {
+    // A file shorter than one hop has no frames to read
+    if (track.frames.length > 0) this.track = track;
+  }
+
+  private receive(spectrum: Float32Array, frame: Float32Array): void {
+    // A finished pre-pass knows the file's structure better than the live estimate
+    if (this.track && this.source instanceof AudioFileSource) {
+      const section = sectionAt(this.track.sections, this.source.currentTime);
+      writeSection(frame, section, section.index !== this.lastSectionIndex);
+      this.lastSectionIndex = section.index;
+
+      const [nextBeat] = trackLookahead(this.track, this.source.currentTime, Infinity).beats;
+      if (nextBeat !== undefined) writeNextBeat(frame, nextBeat);
+    }
+
+    this.previous = this.latest;
+    this.latest = { receivedAt: performance.now(), spectrum: toDisplaySpectrum(spectrum), frame };
+
+    const { features, context } = decodeAnalysis(frame);
+    this.recorder?.add(features);
+    this.capture?.frames.add((this.latest.receivedAt - this.capture.startedAt) / 1000, features, context);
+    this.onFrame?.(features, context);
+    this.frameListeners.forEach(listener => listener(features, context));
+
+    // Seeking back in a prepared file rewinds the beat count, which otherwise trails the beats sent
+    // ahead of it by at most one
+    if (context.beatIndex + 1 < this.lastBeatIndex) {
+      clearTimeout(this.beatTimer);
+      this.lastBeatIndex = context.beatIndex;
+    }
+    this.scheduleBeat(context, features.tempo);
+  }
+
+  /**
+   * Beats go out when they are predicted to sound, not when a frame counts them a frame or two later.
+   * A beat due before the next frame arrives is timed from this one; a beat counted without having
+   * gone out, as after a tap, goes out at once.
+   */
+  private scheduleBeat(context: MusicContext, tempo: number): void {
+    if (context.beatIndex > this.lastBeatIndex) {
+      clearTimeout(this.beatTimer);
+      this.emitBeat({ beatIndex: context.beatIndex, barPosition: context.barPosition, tempo });
+    }
+
+    const delay = context.nextBeatIn * 1000;
+    if (delay > this.hopDuration) return;
+
+    const upcoming = {
+      beatIndex: context.beatIndex + 1,
+      barPosition: (context.barPosition + 1) % BEATS_PER_BAR,
+      tempo
+    };
+    clearTimeout(this.beatTimer);
+    this.beatTimer = setTimeout(() => this.emitBeat(upcoming), delay);
+  }
+
+  private emitBeat(event: BeatEvent): void {
+    // A beat that went out on time is counted again by a later frame
+    if (event.beatIndex <= this.lastBeatIndex) return;
+    this.lastBeatIndex = event.beatIndex;
+
+    this.beatListeners.forEach(listener => listener(event));
+    if (event.barPosition === 0) this.barListeners.forEach(listener => listener(event));
+  }
+
+  private post(request: AnalysisRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(request, transfer);
+  }
+}
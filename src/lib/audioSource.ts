@@ -0,0 +1,141 @@
+/**
+ * Audio Source - Common contract for everything the visualizer can listen to
+ * Analysis and rendering only ever talk to this interface, never to a concrete input
+ */
+
+export type AudioSourceKind = 'demo' | 'microphone' | 'file' | 'media' | 'display';
+
+export type AudioSourceErrorKind = 'permission-denied' | 'no-device' | 'no-audio' | 'unsupported' | 'decode-failed' | 'unknown';
+
+export class AudioSourceError extends Error {
+  constructor(public readonly kind: AudioSourceErrorKind, message: string) {
+    super(message);
+    this.name = 'AudioSourceError';
+  }
+}
+
+/** One array per channel of a stereo signal */
+export interface StereoChannels {
+  left: number[];
+  right: number[];
+}
+
+export interface AudioSource {
+  readonly kind: AudioSourceKind;
+  readonly sampleRate: number;
+  readonly fftSize: number;
+
+  /** Begins producing data; rejects with an AudioSourceError when the input cannot be opened */
+  start(): Promise<void>;
+  stop(): void;
+  /** Releases everything the source holds; it must not be started again afterwards */
+  dispose(): void;
+
+  /** fftSize / 2 magnitude bins normalized to 0-1 */
+  getFrequencyData(): number[];
+  /** fftSize waveform samples in the -1 to 1 range */
+  getTimeDomainData(): number[];
+  /** getTimeDomainData for each channel; null when the source has no stereo image */
+  getStereoTimeDomainData(): StereoChannels | null;
+}
+
+/** Fine enough (about 11 Hz per bin at 44.1 kHz) to tell neighbouring semitones apart from the low-mid range up */
+export const DEFAULT_FFT_SIZE = 4096;
+export const DEFAULT_SAMPLE_RATE = 44100;
+
+export const toAudioSourceError = (error: unknown, fallbackMessage: string): AudioSourceError => {
+  if (error instanceof AudioSourceError) return error;
+  return new AudioSourceError('unknown', error instanceof Error && error.message ? error.message : fallbackMessage);
+};
+
+/**
+ * Shared plumbing for sources that route real audio through a Web Audio AnalyserNode
+ */
+export abstract class AnalyserSource implements AudioSource {
+  abstract readonly kind: AudioSourceKind;
+
+  protected audioContext: AudioContext | null = null;
+  protected analyser: AnalyserNode | null = null;
+  private frequencyBuffer: Uint8Array | null = null;
+  private timeDomainBuffer: Float32Array | null = null;
+  /** Left and right analysers behind a channel splitter, fed from the main analyser */
+  private channelAnalysers: [AnalyserNode, AnalyserNode] | null = null;
+
+  constructor(readonly fftSize = DEFAULT_FFT_SIZE, private readonly smoothing = 0.8) {}
+
+  get sampleRate(): number {
+    return this.audioContext?.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  }
+
+  abstract start(): Promise<void>;
+  abstract stop(): void;
+
+  dispose(): void {
+    this.stop();
+    this.closeAnalyserGraph();
+  }
+
+  getFrequencyData(): number[] {
+    if (!this.analyser || !this.frequencyBuffer) return [];
+
+    this.analyser.getByteFrequencyData(this.frequencyBuffer);
+    return Array.from(this.frequencyBuffer, value => value / 255);
+  }
+
+  getTimeDomainData(): number[] {
+    if (!this.analyser || !this.timeDomainBuffer) return [];
+
+    this.analyser.getFloatTimeDomainData(this.timeDomainBuffer);
+    return Array.from(this.timeDomainBuffer);
+  }
+
+  getStereoTimeDomainData(): StereoChannels | null {
+    if (!this.channelAnalysers || !this.timeDomainBuffer) return null;
+
+    const [left, right] = this.channelAnalysers.map(analyser => {
+      analyser.getFloatTimeDomainData(this.timeDomainBuffer!);
+      return Array.from(this.timeDomainBuffer!);
+    });
+    return { left, right };
+  }
+
+  protected openAnalyserGraph(): AudioContext {
+    if (this.audioContext) return this.audioContext;
+
+    this.audioContext = new AudioContext();
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = this.fftSize;
+    this.analyser.smoothingTimeConstant = this.smoothing;
+    this.frequencyBuffer = new Uint8Array(this.analyser.frequencyBinCount);
+    this.timeDomainBuffer = new Float32Array(this.analyser.fftSize);
+
+    // Mixing to exactly two speaker channels first copies a mono input to both sides, so it reads as centred
+    const stereoMix = this.audioContext.createGain();
+    stereoMix.channelCount = 2;
+    stereoMix.channelCountMode = 'explicit';
+    stereoMix.channelInterpretation = 'speakers';
+    const splitter = this.audioContext.createChannelSplitter(2);
+    this.analyser.connect(stereoMix);
+    stereoMix.connect(splitter);
+
+    this.channelAnalysers = [0, 1].map(channel => {
+      const analyser = this.audioContext!.createAnalyser();
+      analyser.fftSize = this.fftSize;
+      analyser.smoothingTimeConstant = this.smoothing;
+      splitter.connect(analyser, channel);
+      return analyser;
+    }) as [AnalyserNode, AnalyserNode];
+
+    return this.audioContext;
+  }
+
+  protected closeAnalyserGraph(): void {
+    this.audioContext?.close();
+
+    this.audioContext = null;
+    this.analyser = null;
+    this.channelAnalysers = null;
+    this.frequencyBuffer = null;
+    this.timeDomainBuffer = null;
+  }
+}
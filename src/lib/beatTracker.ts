@@ -0,0 +1,172 @@
+/**
+ * Beat Tracker - Follows where the beat falls, not just how fast it is
+ * A phase-locked loop advances at the current tempo and is nudged towards onsets near each predicted beat
+ */
+
+export interface BeatState {
+  /** Position within the current beat, 0 at the beat and approaching 1 just before the next */
+  phase: number;
+  /** Beats counted since tracking started */
+  beatIndex: number;
+  /** Beat within the bar, 0 on the downbeat */
+  barPosition: number;
+  /** Seconds from this frame until the next beat is predicted to sound */
+  nextBeatIn: number;
+}
+
+/** Beats per bar; metre is not detected, and four fits most of what is played */
+export const BEATS_PER_BAR = 4;
+
+/** Tempo assumed until the first update says otherwise */
+const DEFAULT_BPM = 120;
+/** Seconds of onset history searched for where the beats fall */
+const HISTORY_SECONDS = 4;
+/** Weight of each older beat relative to the one after it when locating the phase */
+const BEAT_MEMORY = 0.8;
+/** Share of the phase error corrected per frame, so the loop follows drift without jittering */
+const PHASE_GAIN = 0.05;
+/** Fraction of a beat after the beat in which its accent is measured */
+const ACCENT_WINDOW = 0.25;
+/** Memory of the per-position accent used to find the downbeat, in bars */
+const ACCENT_DECAY = 0.9;
+/** The downbeat only moves when another position is clearly more accented */
+const DOWNBEAT_HYSTERESIS = 1.2;
+
+export class BeatTracker {
+  private phase = 0;
+  private beatIndex = 0;
+  private period: number;
+  private onsets: number[] = [];
+  private beatAccent = 0;
+  private readonly accents: number[];
+  private downbeatOffset = 0;
+  private readonly historyFrames: number;
+  private readonly latencyFrames: number;
+
+  /**
+   * @param frameRate Analysis frames per second
+   * @param beatsPerBar Beats grouped into one bar when locating downbeats
+   * @param latency Seconds by which an onset shows in the onset strength after it sounds; the phase
+   * is set that much ahead of the onsets, so beats fall where they are heard
+   */
+  constructor(private readonly frameRate: number, private readonly beatsPerBar = BEATS_PER_BAR, latency = 0) {
+    this.accents = new Array(beatsPerBar).fill(0);
+    this.historyFrames = Math.round(HISTORY_SECONDS * frameRate);
+    this.latencyFrames = latency * frameRate;
+    this.period = (60 * frameRate) / DEFAULT_BPM;
+  }
+
+  get state(): BeatState {
+    return {
+      phase: this.phase,
+      beatIndex: this.beatIndex,
+      barPosition: this.barPosition(this.beatIndex),
+      nextBeatIn: ((1 - this.phase) * this.period) / this.frameRate
+    };
+  }
+
+  /**
+   * Advances one analysis frame.
+   * @param onset Onset strength of this frame
+   * @param accent How strongly this frame would mark a downbeat, e.g. the bass level
+   * @param bpm Tempo the phase advances at
+   */
+  update(onset: number, accent: number, bpm: number): BeatState {
+    this.onsets.push(onset);
+    if (this.onsets.length > this.historyFrames) this.onsets.shift();
+
+    const period = (60 * this.frameRate) / bpm;
+    this.period = period;
+    let phase = this.phase + 1 / period;
+
+    // Steer towards the phase at which recent onsets line up best, the short way round the cycle
+    const observed = this.observedPhase(period);
+    if (observed !== null) {
+      const error = observed + this.latencyFrames / period - phase;
+      const correction = (error - Math.round(error)) * PHASE_GAIN;
+      // Never pull back across a beat that has already been counted
+      phase = Math.max(0, phase + correction);
+    }
+
+    if (phase >= 1) {
+      this.completeBeat();
+      phase -= Math.floor(phase);
+    }
+
+    if (phase < ACCENT_WINDOW) this.beatAccent = Math.max(this.beatAccent, accent);
+
+    this.phase = phase;
+    return this.state;
+  }
+
+  /** Declares that a beat is happening right now, e.g. from a tap-tempo button */
+  tap(): void {
+    if (this.phase > 0.5) this.completeBeat();
+    this.phase = 0;
+  }
+
+  /**
+   * Folds the onset history at the beat period and finds the offset where onsets pile up,
+   * returning the phase that offset implies for the current frame. The offset is found to a
+   * fraction of a frame, since a whole frame is a sizeable share of a fast beat.
+   */
+  private observedPhase(period: number): number | null {
+    const length = this.onsets.length;
+    if (length < period * 2) return null;
+
+    const offsets = Math.floor(period);
+    const scores: number[] = [];
+    let bestOffset = 0;
+
+    for (let offset = 0; offset < offsets; offset++) {
+      let score = 0;
+      let weight = 1;
+      for (let position = length - 1 - offset; position >= 0; position -= period) {
+        score += this.onsetAt(position) * weight;
+        weight *= BEAT_MEMORY;
+      }
+      scores.push(score);
+      if (score > scores[bestOffset]) bestOffset = offset;
+    }
+    if (scores[bestOffset] <= 0) return null;
+
+    // Parabola through the best offset and its neighbours, which wrap round the cycle
+    const left = scores[(bestOffset + offsets - 1) % offsets];
+    const right = scores[(bestOffset + 1) % offsets];
+    const denominator = left - 2 * scores[bestOffset] + right;
+    const refinement = denominator < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denominator)) : 0;
+
+    return (((bestOffset + refinement) / period) % 1 + 1) % 1;
+  }
+
+  /** Onset strength between frames, blending the two either side */
+  private onsetAt(position: number): number {
+    const index = Math.floor(position);
+    const fraction = position - index;
+    return this.onsets[index] * (1 - fraction) + (this.onsets[index + 1] ?? 0) * fraction;
+  }
+
+  private completeBeat(): void {
+    const position = this.beatIndex % this.beatsPerBar;
+    this.accents[position] = this.accents[position] * ACCENT_DECAY + this.beatAccent * (1 - ACCENT_DECAY);
+    this.updateDownbeat();
+
+    this.beatIndex += 1;
+    this.beatAccent = 0;
+  }
+
+  private updateDownbeat(): void {
+    let strongest = this.downbeatOffset;
+    this.accents.forEach((value, position) => {
+      if (value > this.accents[strongest]) strongest = position;
+    });
+
+    if (this.accents[strongest] > this.accents[this.downbeatOffset] * DOWNBEAT_HYSTERESIS) {
+      this.downbeatOffset = strongest;
+    }
+  }
+
+  private barPosition(beatIndex: number): number {
+    return (beatIndex - this.downbeatOffset + this.beatsPerBar) % this.beatsPerBar;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { BuildUpDetector, BuildUpFrame, BuildUpState } from './buildUpDetector';
+import { FRAME_RATE } from '@/test/signals';
+
+const BPM = 120;
+const GROOVE_SECONDS = 16;
+const BUILD_SECONDS = 8;
+
+type Levels = Pick<BuildUpFrame, 'bass' | 'treble' | 'centroid' | 'snare'>;
+
+/** A frame at some time into a steady 120 BPM track, with the beat where a tracker would put it */
+const frameAt = (seconds: number, levels: Levels): BuildUpFrame => {
+  const beats = (seconds * BPM) / 60;
+  const beatIndex = Math.floor(beats);
+  return {
+    ...levels,
+    beat: { phase: beats - beatIndex, beatIndex, barPosition: beatIndex % 4, nextBeatIn: ((1 - (beats - beatIndex)) * 60) / BPM },
+    bpm: BPM
+  };
+};
+
+const GROOVE: Levels = { bass: 0.7, treble: 0.3, centroid: 1000, snare: 0.2 };
+
+/** Treble rising, the filter opening three octaves and the bass cut, over the whole build */
+const building = (progress: number): Levels => ({
+  bass: 0.2,
+  treble: 0.3 + 0.6 * progress,
+  centroid: 1000 * 2 ** (3 * progress),
+  snare: 0.2
+});
+
+/** States for each frame of a groove, then a build-up, then the drop back into the groove */
+const run = (build: (progress: number) => Levels): { time: number; state: BuildUpState }[] => {
+  const detector = new BuildUpDetector(FRAME_RATE);
+  const states: { time: number; state: BuildUpState }[] = [];
+  const total = GROOVE_SECONDS + BUILD_SECONDS + 4;
+
+  for (let frame = 0; frame < total * FRAME_RATE; frame++) {
+    const time = frame / FRAME_RATE;
+    const into = time - GROOVE_SECONDS;
+    const levels = into < 0 || into >= BUILD_SECONDS ? GROOVE : build(into / BUILD_SECONDS);
+    states.push({ time, state: detector.update(frameAt(time, levels)) });
+  }
+  return states;
+};
+
+describe('BuildUpDetector', () => {
+  it('flags a rising-energy ramp as a build-up that grows towards the drop', () => {
+    const states = run(building);
+    const during = states.filter(({ time }) => time > GROOVE_SECONDS + 3 && time < GROOVE_SECONDS + BUILD_SECONDS);
+
+    expect(during.every(({ state }) => state.progress > 0 && state.dropIn !== null)).toBe(true);
+    const progress = during.map(({ state }) => state.progress);
+    expect(progress.every((value, i) => i === 0 || value >= progress[i - 1])).toBe(true);
+  });
+
+  it('reports the drop when the bass comes back', () => {
+    const drops = run(building).filter(({ state }) => state.drop);
+
+    expect(drops).toHaveLength(1);
+    expect(drops[0].time).toBeGreaterThanOrEqual(GROOVE_SECONDS + BUILD_SECONDS);
+    expect(drops[0].time).toBeLessThan(GROOVE_SECONDS + BUILD_SECONDS + 0.1);
+  });
+
+  it('does not take one cue alone, such as a bass cut, for a build-up', () => {
+    expect(run(() => ({ ...GROOVE, bass: 0.2 })).every(({ state }) => state.progress === 0)).toBe(true);
+  });
+
+  it('sees no build-up in a steady groove', () => {
+    expect(run(() => GROOVE).every(({ state }) => state.progress === 0 && !state.drop)).toBe(true);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Build-up Detector - Recognises the tension before a drop and predicts when the drop will land
+ * Watches for the usual ingredients of an electronic build: rising noise, snare rolls, a filter sweep and a bass cut-out
+ */
+
+import { BeatState } from './beatTracker';
+
+export interface BuildUpFrame {
+  /** Bass level 0-1 */
+  bass: number;
+  /** Treble level 0-1, where risers and white-noise sweeps live */
+  treble: number;
+  /** Spectral centroid in Hz; an opening filter pushes it upwards */
+  centroid: number;
+  /** Level 0-1 of the snare band; rolls too fast for single hits to register still show as constant rises */
+  snare: number;
+  beat: BeatState;
+  bpm: number;
+}
+
+export interface BuildUpState {
+  /** How far through the build-up the music is, 0 when there is none and 1 at the predicted drop */
+  progress: number;
+  /** Seconds until the predicted drop, null when no build-up is under way */
+  dropIn: number | null;
+  /** True on the frame the drop lands */
+  drop: boolean;
+}
+
+export const NO_BUILD_UP: BuildUpState = { progress: 0, dropIn: null, drop: false };
+
+/** Seconds over which rises in treble and centroid are measured */
+const TREND_SECONDS = 4;
+/** Time constants of the recent snare-band activity and of the groove average it is compared with */
+const ROLL_SECONDS = 2;
+const GROOVE_SECONDS = 16;
+/** Time constant of the bass level the cut-out is judged against */
+const BASELINE_SECONDS = 16;
+
+/** Rises that count as fully convincing: treble level per second and centroid octaves per second */
+const RISER_SLOPE = 0.05;
+const SWEEP_SLOPE = 0.25;
+/** Snare-band activity over its groove average that counts as a full roll */
+const ROLL_ACTIVITY = 3;
+/** Bass below this share of its baseline starts to count as cut out, and is fully cut at half that */
+const BASS_CUT_SHARE = 0.8;
+
+/**
+ * Tension, the mean of the two strongest cues, that starts a build-up when held for a moment,
+ * and the lower level that ends one. Few builds use every trick, but one cue alone is not a build:
+ * on its own it reaches 0.5 at most, short of the start level.
+ */
+const START_TENSION = 0.55;
+const START_SECONDS = 1;
+const FADE_TENSION = 0.2;
+const FADE_SECONDS = 2;
+/** A drop still counts this long after a build faded, as the gap before a drop often reads as one */
+const DROP_GRACE_SECONDS = 2;
+/** Builds are assumed to run this many bars, counted from the bar they are recognised in */
+const BUILD_BARS = 8;
+/** No drop is expected in a build's first bars, when new layers are still coming in */
+const MIN_BUILD_BARS = 2;
+/** Rise of the bass over half a second that marks the drop after a build-up */
+const DROP_BASS_RISE = 0.15;
+const DROP_WINDOW_SECONDS = 0.5;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+/** Least-squares slope of evenly spaced values, per sample */
+const slope = (values: number[]): number => {
+  const count = values.length;
+  if (count < 2) return 0;
+
+  const meanX = (count - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / count;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+
+  return numerator / denominator;
+};
+
+export class BuildUpDetector {
+  private treble: number[] = [];
+  private centroid: number[] = [];
+  private previousSnare = 0;
+  /** Snare-band rise per frame over the recent and the groove-length window */
+  private rollActivity = 0;
+  private grooveActivity = 0;
+  private bass: number[] = [];
+  private bassBaseline = 0;
+  private building = false;
+  /** Frames since the last build-up ended without a drop */
+  private sinceFade = Infinity;
+  /** Frames the tension has spent past the start or fade level */
+  private startFrames = 0;
+  private fadeFrames = 0;
+  /** Beat position where the build was recognised, and the downbeat the drop is predicted on */
+  private startBeat = 0;
+  private dropBeat = 0;
+  private readonly trendFrames: number;
+  private readonly dropWindowFrames: number;
+  private readonly rollMemory: number;
+  private readonly grooveMemory: number;
+  private readonly baselineMemory: number;
+
+  /**
+   * @param frameRate Analysis frames per second
+   * @param beatsPerBar Beats per bar, to land predicted drops on a downbeat
+   */
+  constructor(private readonly frameRate: number, private readonly beatsPerBar = 4) {
+    this.trendFrames = Math.max(2, Math.round(TREND_SECONDS * frameRate));
+    this.rollMemory = Math.min(1, 1 / (ROLL_SECONDS * frameRate));
+    this.grooveMemory = Math.min(1, 1 / (GROOVE_SECONDS * frameRate));
+    this.dropWindowFrames = Math.max(1, Math.round(DROP_WINDOW_SECONDS * frameRate));
+    this.baselineMemory = Math.min(1, 1 / (BASELINE_SECONDS * frameRate));
+  }
+
+  update(frame: BuildUpFrame): BuildUpState {
+    this.remember(frame);
+    this.sinceFade += 1;
+
+    const position = frame.beat.beatIndex + frame.beat.phase;
+    const bassRise = frame.bass - this.bass[0];
+    const expectingDrop = this.building
+      ? position - this.startBeat >= MIN_BUILD_BARS * this.beatsPerBar
+      : this.sinceFade <= DROP_GRACE_SECONDS * this.frameRate;
+
+    if (expectingDrop && bassRise > DROP_BASS_RISE && frame.bass >= this.bassBaseline * BASS_CUT_SHARE) {
+      this.building = false;
+      this.startFrames = 0;
+      this.sinceFade = Infinity;
+      return { progress: 0, dropIn: null, drop: true };
+    }
+
+    const tension = this.tension(frame);
+
+    if (!this.building) {
+      // The baseline only follows the bass outside builds, so a cut-out cannot drag it down
+      this.bassBaseline += (frame.bass - this.bassBaseline) * this.baselineMemory;
+      this.startFrames = tension >= START_TENSION ? this.startFrames + 1 : 0;
+      if (this.startFrames < START_SECONDS * this.frameRate) return NO_BUILD_UP;
+
+      this.building = true;
+      this.fadeFrames = 0;
+      this.startBeat = position;
+      // Builds are recognised a bar or so in, so the prediction counts from the current bar's downbeat
+      this.dropBeat = frame.beat.beatIndex - frame.beat.barPosition + BUILD_BARS * this.beatsPerBar;
+    }
+
+    this.fadeFrames = tension < FADE_TENSION ? this.fadeFrames + 1 : 0;
+    if (this.fadeFrames >= FADE_SECONDS * this.frameRate) {
+      this.building = false;
+      this.startFrames = 0;
+      this.sinceFade = 0;
+      return NO_BUILD_UP;
+    }
+
+    // Past the predicted downbeat, hold at full tension until the drop lands or the build fades
+    const remaining = Math.max(0, this.dropBeat - position);
+    return {
+      progress: clamp((position - this.startBeat) / Math.max(1, this.dropBeat - this.startBeat)),
+      dropIn: (remaining * 60) / frame.bpm,
+      drop: false
+    };
+  }
+
+  private remember(frame: BuildUpFrame): void {
+    const push = (history: number[], value: number, limit: number) => {
+      history.push(value);
+      if (history.length > limit) history.shift();
+    };
+
+    push(this.treble, frame.treble, this.trendFrames);
+    push(this.centroid, Math.log2(Math.max(1, frame.centroid)), this.trendFrames);
+    push(this.bass, frame.bass, this.dropWindowFrames + 1);
+
+    const rise = Math.max(0, frame.snare - this.previousSnare);
+    this.previousSnare = frame.snare;
+    this.rollActivity += (rise - this.rollActivity) * this.rollMemory;
+    this.grooveActivity += (rise - this.grooveActivity) * this.grooveMemory;
+  }
+
+  /** Mean of the two strongest of the four build-up cues, each 0-1 */
+  private tension(frame: BuildUpFrame): number {
+    const riser = clamp((slope(this.treble) * this.frameRate) / RISER_SLOPE);
+    const sweep = clamp((slope(this.centroid) * this.frameRate) / SWEEP_SLOPE);
+
+    const activity = this.grooveActivity > 0 ? this.rollActivity / this.grooveActivity : 1;
+    const roll = clamp((activity - 1) / (ROLL_ACTIVITY - 1));
+
+    const bassShare = this.bassBaseline > 0 ? frame.bass / this.bassBaseline : 1;
+    const cut = clamp((BASS_CUT_SHARE - bassShare) / (BASS_CUT_SHARE / 2));
+
+    const [first, second] = [riser, sweep, roll, cut].sort((a, b) => b - a);
+    return (first + second) / 2;
+  }
+}
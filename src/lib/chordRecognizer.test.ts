@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ChordRecognizer, formatChord } from './chordRecognizer';
+import { KeyDetector } from './keyDetector';
+import { summarizeSpectrum } from './spectralDescriptors';
+import { FFT_SIZE, FRAME_RATE, midiToHz, SAMPLE_RATE, spectra, tones } from '@/test/signals';
+
+/** Chroma of every frame of a sound, as the Music Brain hands them to the recognizer */
+const chromaFrames = (samples: Float32Array): number[][] => {
+  const detector = new KeyDetector(SAMPLE_RATE, FFT_SIZE, FRAME_RATE);
+  return spectra(samples).map(({ spectrum }) => {
+    const { magnitudes } = summarizeSpectrum(spectrum, null, SAMPLE_RATE / FFT_SIZE);
+    return detector.chromagram(magnitudes);
+  });
+};
+
+/** Idealised chroma of a voicing with the root in the bass: the root loudest, its other notes a little quieter */
+const chromaOf = (...pitchClasses: number[]): number[] =>
+  Array.from({ length: 12 }, (_, i) => (i === pitchClasses[0] ? 1 : pitchClasses.includes(i) ? 0.8 : 0));
+
+const recognise = (frames: number[][]): string => {
+  const recognizer = new ChordRecognizer(FRAME_RATE);
+  frames.forEach(chroma => recognizer.update(chroma));
+  return formatChord(recognizer.chord);
+};
+
+describe('ChordRecognizer', () => {
+  it('names a sounding C major triad C', () => {
+    expect(recognise(chromaFrames(tones([48, 60, 64, 67].map(midiToHz), 1, 0.3)))).toBe('C');
+  });
+
+  it.each([
+    [[9, 0, 4], 'Am'],
+    [[7, 11, 2, 5], 'G7'],
+    [[2, 7, 9], 'Dsus4'],
+    [[11, 2, 5], 'Bdim']
+  ])('names the chroma of %j %s', (pitchClasses, name) => {
+    expect(recognise(new Array(30).fill(chromaOf(...pitchClasses)))).toBe(name);
+  });
+
+  it('reports no chord for silence', () => {
+    expect(recognise(new Array(30).fill(chromaOf()))).toBe('N.C.');
+  });
+
+  it('holds the current chord through a change shorter than the hold time', () => {
+    const recognizer = new ChordRecognizer(FRAME_RATE);
+    const c = chromaOf(0, 4, 7);
+    const f = chromaOf(5, 9, 0);
+    [...new Array(30).fill(c), f, f, ...new Array(30).fill(c)].forEach(chroma => recognizer.update(chroma));
+
+    expect(formatChord(recognizer.chord)).toBe('C');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Chord Recognizer - Names the chord sounding now by matching chroma against chord templates
+ * A new chord has to win for a short hold time before it replaces the current one
+ */
+
+import { PITCH_CLASSES } from './keyDetector';
+
+export type ChordQuality = 'maj' | 'min' | '7' | 'sus2' | 'sus4' | 'dim';
+
+export interface Chord {
+  /** Pitch class of the root, 0 = C through 11 = B */
+  root: number;
+  quality: ChordQuality;
+}
+
+/** Semitones above the root that make up each chord */
+const CHORD_INTERVALS: Record<ChordQuality, number[]> = {
+  maj: [0, 4, 7],
+  min: [0, 3, 7],
+  '7': [0, 4, 7, 10],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  dim: [0, 3, 6]
+};
+
+const CHORD_SUFFIXES: Record<ChordQuality, string> = {
+  maj: '',
+  min: 'm',
+  '7': '7',
+  sus2: 'sus2',
+  sus4: 'sus4',
+  dim: 'dim'
+};
+
+export const CHORD_QUALITIES = Object.keys(CHORD_INTERVALS) as ChordQuality[];
+
+/** Template similarity below which the frame is treated as having no chord */
+const MIN_MATCH = 0.6;
+/** Weight of the root's own strength; breaks ties between chords sharing notes, such as Dsus4 and Gsus2 */
+const ROOT_WEIGHT = 0.05;
+/** Seconds a different chord must keep winning before it is reported */
+const CHANGE_HOLD_SECONDS = 0.25;
+/** Seconds of chroma averaged before matching, to ride over single noisy frames */
+const SMOOTHING_SECONDS = 0.15;
+
+export const formatChord = (chord: Chord | null): string =>
+  chord ? `${PITCH_CLASSES[chord.root]}${CHORD_SUFFIXES[chord.quality]}` : 'N.C.';
+
+const sameChord = (a: Chord | null, b: Chord | null): boolean =>
+  a === b || (a !== null && b !== null && a.root === b.root && a.quality === b.quality);
+
+/** Unit-length chroma template for a chord */
+const template = (root: number, quality: ChordQuality): number[] => {
+  const intervals = CHORD_INTERVALS[quality];
+  const values = new Array(12).fill(0);
+  intervals.forEach(interval => {
+    values[(root + interval) % 12] = 1 / Math.sqrt(intervals.length);
+  });
+  return values;
+};
+
+const TEMPLATES = CHORD_QUALITIES.flatMap(quality =>
+  PITCH_CLASSES.map((_, root) => ({ chord: { root, quality }, values: template(root, quality) }))
+);
+
+export class ChordRecognizer {
+  private smoothed: number[] = new Array(12).fill(0);
+  private current: Chord | null = null;
+  private candidate: Chord | null = null;
+  private candidateFrames = 0;
+  private match = 0;
+  private readonly holdFrames: number;
+  private readonly smoothing: number;
+
+  /**
+   * @param frameRate Analysis frames per second
+   */
+  constructor(frameRate: number) {
+    this.holdFrames = Math.max(1, Math.round(CHANGE_HOLD_SECONDS * frameRate));
+    this.smoothing = Math.min(1, 1 / (SMOOTHING_SECONDS * frameRate));
+  }
+
+  get chord(): Chord | null {
+    return this.current;
+  }
+
+  /** How well the recent chroma fits its best chord template, 0-1 */
+  get clarity(): number {
+    return this.match;
+  }
+
+  /** Adds one frame's chroma; returns true on the frame where the reported chord changes */
+  update(chroma: number[]): boolean {
+    this.smoothed = this.smoothed.map((value, i) => value + ((chroma[i] ?? 0) - value) * this.smoothing);
+
+    const { chord, score } = this.bestMatch(this.smoothed);
+    this.match = score;
+    const heard = score >= MIN_MATCH ? chord : null;
+
+    if (sameChord(heard, this.current)) {
+      this.candidate = null;
+      this.candidateFrames = 0;
+      return false;
+    }
+
+    if (sameChord(heard, this.candidate)) {
+      this.candidateFrames += 1;
+    } else {
+      this.candidate = heard;
+      this.candidateFrames = 1;
+    }
+
+    if (this.candidateFrames < this.holdFrames) return false;
+
+    this.current = this.candidate;
+    this.candidate = null;
+    this.candidateFrames = 0;
+    return true;
+  }
+
+  /** Cosine similarity against every template, nudged towards chords whose root is the loudest note */
+  private bestMatch(chroma: number[]): { chord: Chord | null; score: number } {
+    const norm = Math.sqrt(chroma.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return { chord: null, score: 0 };
+
+    let best: Chord | null = null;
+    let bestScore = 0;
+
+    for (const { chord, values } of TEMPLATES) {
+      const similarity = values.reduce((sum, value, i) => sum + value * chroma[i], 0) / norm;
+      const score = similarity + ROOT_WEIGHT * chroma[chord.root] / norm;
+      if (score > bestScore) {
+        bestScore = score;
+        best = chord;
+      }
+    }
+
+    // Capped only once the best is found; capping each score would tie chords whose notes fit perfectly
+    return { chord: best, score: Math.min(1, bestScore) };
+  }
+}
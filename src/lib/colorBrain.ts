@@ -14,6 +14,9 @@ export interface ColorPalette {
   particles: string[];
 }
 
+/** Where the palette's base hue comes from: the detected genre, or the notes being played */
+export type HueMapping = 'genre' | 'chromesthesia';
+
 export interface ColorMood {
   name: string;
   temperature: 'warm' | 'cool' | 'neutral';
@@ -22,43 +25,52 @@ export interface ColorMood {
   contrast: number;
 }
 
+/** Hue of a pitch class on a circle-of-fifths colour wheel, so related notes get neighbouring hues */
+const fifthsHue = (pitchClass: number): number => ((pitchClass * 7) % 12) * 30;
+
+/** Share of the way towards the new palette taken on the frame a chord changes */
+const CHORD_CHANGE_TRANSITION = 0.5;
+/** A new song section starts on its own palette straight away */
+const SECTION_CHANGE_TRANSITION = 1;
+
 export class ColorBrain {
   private colorHistory: ColorPalette[] = [];
   private transitionSpeed = 0.1;
+  private hueMapping: HueMapping = 'genre';
 
   generatePalette(features: AudioFeatures, context: MusicContext): ColorPalette {
     const mood = this.analyzeMood(features, context);
     const basePalette = this.createBasePalette(features, context, mood);
     const refinedPalette = this.refineForContext(basePalette, context);
     
-    // Smooth transitions
-    const finalPalette = this.smoothTransition(refinedPalette);
+    // Smooth transitions; chord and section changes are real events, so the palette moves decisively
+    const speed = context.sectionChange
+      ? SECTION_CHANGE_TRANSITION
+      : context.chordChange ? CHORD_CHANGE_TRANSITION : this.transitionSpeed;
+    const finalPalette = this.smoothTransition(refinedPalette, speed);
     
     this.updateHistory(finalPalette);
     return finalPalette;
   }
 
   private analyzeMood(features: AudioFeatures, context: MusicContext): ColorMood {
-    const { energy, harmony, mood, bass, treble } = features;
-    const { emotionalIntensity, genreHint } = context;
+    const { valence, arousal, mood, treble, dynamics } = features;
+    const { emotionalIntensity } = context;
 
-    // Determine temperature based on musical characteristics
+    // Pleasant music reads warm and unpleasant music cool, with a neutral band in between
     let temperature: ColorMood['temperature'] = 'neutral';
-    if (bass > 0.6 || genreHint === 'electronic') temperature = 'cool';
-    if (harmony > 0.6 || genreHint === 'acoustic') temperature = 'warm';
-    if (mood === 'mysterious' || mood === 'dramatic') temperature = 'cool';
+    if (valence > 0.2) temperature = 'warm';
+    if (valence < -0.2) temperature = 'cool';
 
-    // Calculate saturation based on energy and dynamics
-    const saturation = Math.min(100, 40 + (energy * 60) + (features.dynamics * 30));
-
-    // Calculate brightness based on treble and mood
-    const brightness = Math.min(100, 30 + (treble * 40) + (emotionalIntensity * 30));
-
-    // Calculate contrast based on dynamics and genre
-    const contrast = Math.min(100, 20 + (features.dynamics * 50) + (energy * 30));
+    // Arousal drives saturation and contrast, valence lightness; both on a 0-1 scale here
+    const excitement = (arousal + 1) / 2;
+    const pleasantness = (valence + 1) / 2;
+    const saturation = Math.min(100, 40 + (excitement * 50) + (dynamics * 10));
+    const brightness = Math.min(100, 30 + (pleasantness * 35) + (treble * 15) + (emotionalIntensity * 20));
+    const contrast = Math.min(100, 20 + (excitement * 50) + (dynamics * 30));
 
     return {
-      name: this.getMoodName(mood, energy, harmony),
+      name: this.getMoodName(mood, arousal, valence),
       temperature,
       saturation,
       brightness,
@@ -67,12 +79,35 @@ export class ColorBrain {
   }
 
   private createBasePalette(features: AudioFeatures, context: MusicContext, mood: ColorMood): ColorPalette {
+    const baseHue = (this.hueMapping === 'chromesthesia'
+      ? this.chromaticHue(features, context)
+      : this.genreHue(features, context)) % 360;
+
+    // Generate complementary and analogous colors; the accent follows the root of the current chord
+    const primaryHue = baseHue;
+    const secondaryHue = (baseHue + 120) % 360;
+    const accentHue = context.chord ? fifthsHue(context.chord.root) : (baseHue + 240) % 360;
+    const backgroundHue = (baseHue + 180) % 360;
+
+    // Adjust saturation and lightness based on mood
+    const saturation = mood.saturation;
+    const lightness = mood.brightness;
+
+    return {
+      primary: `hsl(${primaryHue}, ${saturation}%, ${lightness}%)`,
+      secondary: `hsl(${secondaryHue}, ${saturation * 0.8}%, ${lightness * 0.9}%)`,
+      accent: `hsl(${accentHue}, ${saturation * 1.2}%, ${lightness * 1.1}%)`,
+      background: `hsl(${backgroundHue}, ${saturation * 0.3}%, ${lightness * 0.2}%)`,
+      glow: `hsl(${primaryHue}, ${saturation * 1.5}%, ${lightness * 1.3}%)`,
+      particles: this.generateParticleColors(baseHue, saturation, lightness, features)
+    };
+  }
+
+  private genreHue(features: AudioFeatures, context: MusicContext): number {
     const { bass, mid, treble, energy, harmony } = features;
     const { genreHint, vocalPresence, emotionalIntensity } = context;
-
-    // Base hue calculation
     let baseHue = 0;
-    
+
     switch (genreHint) {
       case 'electronic':
         baseHue = 240 + (bass * 60); // Blue to purple range
@@ -96,26 +131,28 @@ export class ColorBrain {
         baseHue = (bass * 120) + (treble * 240); // Dynamic based on frequency content
     }
 
-    baseHue = baseHue % 360;
+    return baseHue;
+  }
 
-    // Generate complementary and analogous colors
-    const primaryHue = baseHue;
-    const secondaryHue = (baseHue + 120) % 360;
-    const accentHue = (baseHue + 240) % 360;
-    const backgroundHue = (baseHue + 180) % 360;
+  /**
+   * Places pitch classes on a circle-of-fifths colour wheel, so related keys get neighbouring hues.
+   * The notes sounding now set the hue, pulled towards the key's hue as the key becomes certain.
+   */
+  private chromaticHue(features: AudioFeatures, context: MusicContext): number {
+    const toRadians = (hue: number) => (hue * Math.PI) / 180;
+
+    let x = 0;
+    let y = 0;
+    features.chroma.forEach((weight, pitchClass) => {
+      x += Math.cos(toRadians(fifthsHue(pitchClass))) * weight;
+      y += Math.sin(toRadians(fifthsHue(pitchClass))) * weight;
+    });
 
-    // Adjust saturation and lightness based on mood
-    const saturation = mood.saturation;
-    const lightness = mood.brightness;
+    const keyWeight = context.key.confidence * features.chroma.length / 2;
+    x += Math.cos(toRadians(fifthsHue(context.key.tonic))) * keyWeight;
+    y += Math.sin(toRadians(fifthsHue(context.key.tonic))) * keyWeight;
 
-    return {
-      primary: `hsl(${primaryHue}, ${saturation}%, ${lightness}%)`,
-      secondary: `hsl(${secondaryHue}, ${saturation * 0.8}%, ${lightness * 0.9}%)`,
-      accent: `hsl(${accentHue}, ${saturation * 1.2}%, ${lightness * 1.1}%)`,
-      background: `hsl(${backgroundHue}, ${saturation * 0.3}%, ${lightness * 0.2}%)`,
-      glow: `hsl(${primaryHue}, ${saturation * 1.5}%, ${lightness * 1.3}%)`,
-      particles: this.generateParticleColors(baseHue, saturation, lightness, features)
-    };
+    return Math.round((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
   }
 
   private generateParticleColors(baseHue: number, saturation: number, lightness: number, features: AudioFeatures): string[] {
@@ -225,11 +262,10 @@ export class ColorBrain {
     };
   }
 
-  private smoothTransition(newPalette: ColorPalette): ColorPalette {
+  private smoothTransition(newPalette: ColorPalette, speed: number): ColorPalette {
     if (this.colorHistory.length === 0) return newPalette;
 
     const lastPalette = this.colorHistory[this.colorHistory.length - 1];
-    const speed = this.transitionSpeed;
 
     const blend = (color1: string, color2: string): string => {
       const hsl1 = this.parseHSL(color1);
@@ -282,11 +318,11 @@ export class ColorBrain {
     return (hue + shift + 360) % 360;
   }
 
-  private getMoodName(mood: AudioFeatures['mood'], energy: number, harmony: number): string {
-    const intensity = energy > 0.6 ? 'intense' : energy > 0.3 ? 'moderate' : 'gentle';
-    const harmonyLevel = harmony > 0.6 ? 'harmonious' : harmony > 0.3 ? 'balanced' : 'chaotic';
+  private getMoodName(mood: AudioFeatures['mood'], arousal: number, valence: number): string {
+    const intensity = arousal > 0.3 ? 'intense' : arousal > -0.3 ? 'moderate' : 'gentle';
+    const tone = valence > 0.3 ? 'bright' : valence > -0.3 ? 'balanced' : 'dark';
 
-    return `${intensity}-${mood}-${harmonyLevel}`;
+    return `${intensity}-${mood}-${tone}`;
   }
 
   private updateHistory(palette: ColorPalette): void {
@@ -294,6 +330,10 @@ export class ColorBrain {
     if (this.colorHistory.length > 10) this.colorHistory.shift(); // Keep recent history
   }
 
+  setHueMapping(mapping: HueMapping): void {
+    this.hueMapping = mapping;
+  }
+
   setTransitionSpeed(speed: number): void {
     this.transitionSpeed = Math.max(0.01, Math.min(1, speed));
   }
@@ -0,0 +1,57 @@
+/**
+ * Database - The app's one IndexedDB database, shared by every store that outlives a reload
+ * Opening it in one place keeps the version and the object stores of each version together
+ */
+
+const DB_NAME = 'sacred-visualizer';
+/** Version 2 added the analysis tracks, version 3 the record of when each was last used */
+const DB_VERSION = 3;
+
+export const TRACK_STORE = 'playlist-tracks';
+export const ANALYSIS_STORE = 'analysis-tracks';
+export const ANALYSIS_USAGE_STORE = 'analysis-usage';
+const STORES = [TRACK_STORE, ANALYSIS_STORE, ANALYSIS_USAGE_STORE];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (database) return database;
+
+  database = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const store of STORES) {
+        if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Let a later call retry if opening failed
+  database.catch(() => {
+    database = null;
+  });
+
+  return database;
+};
+
+/** Runs one request against an object store and resolves with its result */
+export const requestStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const opened = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const request = run(opened.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioSourceError } from './audioSource';
+import { DisplayCaptureSource } from './displayCaptureSource';
+
+class FakeTrack extends EventTarget {
+  readonly stop = vi.fn();
+
+  constructor(readonly kind: 'audio' | 'video') {
+    super();
+  }
+
+  /** As the browser does when the user presses "Stop sharing" */
+  end(): void {
+    this.dispatchEvent(new Event('ended'));
+  }
+}
+
+class FakeStream {
+  constructor(private readonly tracks: FakeTrack[]) {}
+
+  getTracks(): FakeTrack[] {
+    return this.tracks;
+  }
+
+  getAudioTracks(): FakeTrack[] {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+}
+
+const fakeNode = () => ({ connect: vi.fn(), disconnect: vi.fn() });
+
+/** Just enough of an AudioContext for the analyser graph */
+class FakeAudioContext {
+  static opened: FakeAudioContext[] = [];
+
+  readonly sampleRate = 44100;
+  readonly close = vi.fn(async () => {});
+  readonly sourceNode = fakeNode();
+
+  constructor() {
+    FakeAudioContext.opened.push(this);
+  }
+
+  createAnalyser() {
+    return { ...fakeNode(), fftSize: 0, smoothingTimeConstant: 0, frequencyBinCount: 0 };
+  }
+
+  createGain() {
+    return { ...fakeNode(), channelCount: 1, channelCountMode: 'max', channelInterpretation: 'speakers' };
+  }
+
+  createChannelSplitter() {
+    return fakeNode();
+  }
+
+  createMediaStreamSource() {
+    return this.sourceNode;
+  }
+}
+
+const shareStream = (stream: FakeStream) => {
+  vi.stubGlobal('navigator', { mediaDevices: { getDisplayMedia: vi.fn(async () => stream) } });
+};
+
+describe('DisplayCaptureSource', () => {
+  beforeEach(() => {
+    FakeAudioContext.opened = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('rejects a share without audio and stops its video', async () => {
+    const video = new FakeTrack('video');
+    shareStream(new FakeStream([video]));
+
+    const error = await new DisplayCaptureSource().start().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(AudioSourceError);
+    expect((error as AudioSourceError).kind).toBe('no-audio');
+    expect(video.stop).toHaveBeenCalled();
+    expect(FakeAudioContext.opened).toHaveLength(0);
+  });
+
+  it('tears the graph down and reports it when the share ends in the browser', async () => {
+    const audio = new FakeTrack('audio');
+    const video = new FakeTrack('video');
+    shareStream(new FakeStream([video, audio]));
+
+    const source = new DisplayCaptureSource();
+    const onEnded = vi.fn();
+    source.onEnded = onEnded;
+    await source.start();
+
+    const [context] = FakeAudioContext.opened;
+    expect(context.sourceNode.connect).toHaveBeenCalled();
+
+    audio.end();
+
+    expect(onEnded).toHaveBeenCalledTimes(1);
+    expect(audio.stop).toHaveBeenCalled();
+    expect(video.stop).toHaveBeenCalled();
+    expect(context.sourceNode.disconnect).toHaveBeenCalled();
+    expect(context.close).toHaveBeenCalled();
+
+    // The other track ending as a result must not report the end twice
+    video.end();
+    expect(onEnded).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not report an end after stop() was called', async () => {
+    const audio = new FakeTrack('audio');
+    shareStream(new FakeStream([audio]));
+
+    const source = new DisplayCaptureSource();
+    const onEnded = vi.fn();
+    source.onEnded = onEnded;
+    await source.start();
+
+    source.stop();
+    audio.end();
+
+    expect(onEnded).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Display Capture Source - Listens to another tab or the system mix through getDisplayMedia
+ * Browsers only hand out audio alongside a video share, so the video track is kept but never read
+ */
+
+import { AnalyserSource, AudioSourceError } from './audioSource';
+
+export class DisplayCaptureSource extends AnalyserSource {
+  readonly kind = 'display' as const;
+
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private stream: MediaStream | null = null;
+
+  /** Called when the user ends the share from the browser UI rather than through stop() */
+  onEnded: (() => void) | null = null;
+
+  async start(): Promise<void> {
+    this.stop();
+
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      throw new AudioSourceError('unsupported', 'This browser cannot capture tab or system audio.');
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+        audio: {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false
+        },
+        // Chromium-only hints that preselect "share audio" where the picker supports it
+        systemAudio: 'include',
+        selfBrowserSurface: 'exclude'
+      } as DisplayMediaStreamOptions);
+    } catch (error) {
+      throw this.toSourceError(error);
+    }
+
+    if (stream.getAudioTracks().length === 0) {
+      stream.getTracks().forEach(track => track.stop());
+      throw new AudioSourceError(
+        'no-audio',
+        'The shared screen has no sound. Share again, pick a browser tab or your entire screen, and switch on "Share audio". Single windows never carry audio.'
+      );
+    }
+
+    this.stream = stream;
+    stream.getTracks().forEach(track => track.addEventListener('ended', this.handleTrackEnded));
+
+    const context = this.openAnalyserGraph();
+    this.sourceNode = context.createMediaStreamSource(stream);
+    this.sourceNode.connect(this.analyser!);
+  }
+
+  stop(): void {
+    this.stream?.getTracks().forEach(track => {
+      track.removeEventListener('ended', this.handleTrackEnded);
+      track.stop();
+    });
+    this.sourceNode?.disconnect();
+    this.closeAnalyserGraph();
+
+    this.sourceNode = null;
+    this.stream = null;
+  }
+
+  private handleTrackEnded = () => {
+    if (!this.stream) return;
+
+    this.stop();
+    this.onEnded?.();
+  };
+
+  private toSourceError(error: unknown): AudioSourceError {
+    const name = error instanceof DOMException ? error.name : '';
+
+    switch (name) {
+      case 'NotAllowedError':
+        return new AudioSourceError('permission-denied', 'Screen sharing was cancelled or blocked. Press play to choose a tab again.');
+      case 'NotFoundError':
+        return new AudioSourceError('no-device', 'There is nothing available to share.');
+      case 'NotSupportedError':
+      case 'TypeError':
+        return new AudioSourceError('unsupported', 'This browser cannot capture tab or system audio.');
+      default:
+        return new AudioSourceError('unknown', error instanceof Error ? error.message : 'Could not start screen sharing.');
+    }
+  }
+}
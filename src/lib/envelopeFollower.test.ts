@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { EnvelopeFollower, EnvelopeSettings } from './envelopeFollower';
+
+/** One frame per millisecond, so frame counts read as times */
+const FRAME_RATE = 1000;
+
+/** Output for each of some frames of a constant input */
+const follow = (follower: EnvelopeFollower, input: number, frames: number): number[] =>
+  Array.from({ length: frames }, () => follower.update(input));
+
+const follower = (settings: Partial<EnvelopeSettings>) =>
+  new EnvelopeFollower({ attackMs: 0, releaseMs: 0, holdMs: 0, ...settings }, FRAME_RATE);
+
+describe('EnvelopeFollower', () => {
+  it('rises 1 - 1/e of the way to a step within its attack time', () => {
+    const rise = follow(follower({ attackMs: 10 }), 1, 50);
+
+    // Ten steps of a tenth each land within a few percent of the continuous curve
+    expect(rise[9]).toBeCloseTo(1 - Math.exp(-1), 1);
+    expect(rise[29]).toBeGreaterThan(0.95);
+    expect(rise.every((value, i) => i === 0 || value > rise[i - 1])).toBe(true);
+  });
+
+  it('follows a rise at once with no attack time', () => {
+    expect(follow(follower({}), 0.8, 1)).toEqual([0.8]);
+  });
+
+  it('falls with its release time', () => {
+    const envelope = follower({ releaseMs: 100 });
+    follow(envelope, 1, 1);
+    const fall = follow(envelope, 0, 300);
+
+    expect(fall[99]).toBeCloseTo(Math.exp(-1), 1);
+    expect(fall[299]).toBeLessThan(0.06);
+  });
+
+  it('holds a peak for its hold time before releasing', () => {
+    const envelope = follower({ releaseMs: 100, holdMs: 50 });
+    follow(envelope, 1, 1);
+    const fall = follow(envelope, 0, 60);
+
+    expect(fall.slice(0, 50).every(value => value === 1)).toBe(true);
+    expect(fall[50]).toBeLessThan(1);
+  });
+
+  it('rises fast and falls slowly with a short attack and a long release', () => {
+    const envelope = follower({ attackMs: 5, releaseMs: 200 });
+    const [peak] = follow(envelope, 1, 20).slice(-1);
+    const [after] = follow(envelope, 0, 20).slice(-1);
+
+    expect(peak).toBeGreaterThan(0.95);
+    expect(after).toBeGreaterThan(0.85);
+  });
+
+  it('keeps its level when its timing changes', () => {
+    const envelope = follower({ attackMs: 10 });
+    const [level] = follow(envelope, 1, 5).slice(-1);
+    envelope.configure({ attackMs: 10, releaseMs: 1000, holdMs: 0 });
+
+    expect(envelope.update(level)).toBe(level);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Envelope Follower - Attack, release and peak-hold smoothing of the analysed levels
+ * Rises and falls at separate rates, so a value can jump up with a hit and still sink away slowly
+ */
+
+import { FrequencyBands } from './musicBrain';
+
+export interface EnvelopeSettings {
+  /** Time to rise most of the way to a louder input; 0 follows it at once */
+  attackMs: number;
+  /** Time to fall most of the way to a quieter input */
+  releaseMs: number;
+  /** Time a peak is held before the release starts; 0 releases straight away */
+  holdMs: number;
+}
+
+/** Scalar features that get an envelope; the bands share one setting between them */
+export const ENVELOPED_FEATURES = ['bass', 'mid', 'treble', 'rhythm', 'melody', 'harmony', 'dynamics', 'energy'] as const;
+
+export type EnvelopeKey = (typeof ENVELOPED_FEATURES)[number] | 'bands';
+
+/** Envelope settings to change, per feature and per setting; anything left out keeps its default */
+export type EnvelopeOverrides = Partial<Record<EnvelopeKey, Partial<EnvelopeSettings>>>;
+
+/** The enveloped features, raw as analysed or smoothed as AudioFeatures.smoothed holds them */
+export type EnvelopedFeatures = Record<(typeof ENVELOPED_FEATURES)[number], number> & { bands: FrequencyBands };
+
+/**
+ * Defaults: levels that carry hits attack fast and hold their peaks briefly, the broad descriptors
+ * of harmony and dynamics drift slowly so they read as the character of a passage
+ */
+export const DEFAULT_ENVELOPES: Record<EnvelopeKey, EnvelopeSettings> = {
+  bands: { attackMs: 10, releaseMs: 150, holdMs: 0 },
+  bass: { attackMs: 5, releaseMs: 200, holdMs: 50 },
+  mid: { attackMs: 10, releaseMs: 150, holdMs: 0 },
+  treble: { attackMs: 5, releaseMs: 100, holdMs: 0 },
+  rhythm: { attackMs: 5, releaseMs: 250, holdMs: 60 },
+  melody: { attackMs: 30, releaseMs: 300, holdMs: 0 },
+  harmony: { attackMs: 100, releaseMs: 500, holdMs: 0 },
+  dynamics: { attackMs: 100, releaseMs: 600, holdMs: 0 },
+  energy: { attackMs: 20, releaseMs: 400, holdMs: 0 }
+};
+
+/** Share of the remaining distance covered per frame for a time constant in milliseconds */
+const coefficient = (ms: number, frameRate: number) => Math.min(1, 1000 / (ms * frameRate));
+
+export class EnvelopeFollower {
+  private value = 0;
+  private heldFrames = 0;
+  private attack = 1;
+  private release = 1;
+  private holdFrames = 0;
+
+  /**
+   * @param settings Attack, release and hold times
+   * @param frameRate Analysis frames per second
+   */
+  constructor(settings: EnvelopeSettings, private readonly frameRate: number) {
+    this.configure(settings);
+  }
+
+  /** Changes the timing without resetting the level, so switching settings mid-track does not jump */
+  configure({ attackMs, releaseMs, holdMs }: EnvelopeSettings): void {
+    this.attack = coefficient(attackMs, this.frameRate);
+    this.release = coefficient(releaseMs, this.frameRate);
+    this.holdFrames = Math.round((holdMs * this.frameRate) / 1000);
+  }
+
+  update(input: number): number {
+    if (input >= this.value) {
+      this.value += (input - this.value) * this.attack;
+      this.heldFrames = 0;
+    } else if (this.heldFrames < this.holdFrames) {
+      this.heldFrames += 1;
+    } else {
+      this.value += (input - this.value) * this.release;
+    }
+
+    return this.value;
+  }
+}
+
+/** One envelope per enveloped feature and band, with the defaults overridable per feature */
+export class FeatureEnvelopes {
+  private readonly followers: Record<(typeof ENVELOPED_FEATURES)[number], EnvelopeFollower>;
+  private readonly bandFollowers: Record<keyof FrequencyBands, EnvelopeFollower>;
+
+  /**
+   * @param frameRate Analysis frames per second
+   */
+  constructor(frameRate: number) {
+    this.followers = {} as Record<(typeof ENVELOPED_FEATURES)[number], EnvelopeFollower>;
+    for (const key of ENVELOPED_FEATURES) this.followers[key] = new EnvelopeFollower(DEFAULT_ENVELOPES[key], frameRate);
+
+    const band = () => new EnvelopeFollower(DEFAULT_ENVELOPES.bands, frameRate);
+    this.bandFollowers = {
+      subBass: band(),
+      bass: band(),
+      lowMid: band(),
+      mid: band(),
+      highMid: band(),
+      presence: band(),
+      brilliance: band()
+    };
+  }
+
+  /** Replaces any earlier overrides; features not named go back to their defaults */
+  setOverrides(overrides: EnvelopeOverrides): void {
+    const settings = (key: EnvelopeKey): EnvelopeSettings => ({ ...DEFAULT_ENVELOPES[key], ...overrides[key] });
+
+    for (const key of ENVELOPED_FEATURES) this.followers[key].configure(settings(key));
+    for (const follower of Object.values(this.bandFollowers)) follower.configure(settings('bands'));
+  }
+
+  update(raw: EnvelopedFeatures): EnvelopedFeatures {
+    const bands = {} as FrequencyBands;
+    for (const band of Object.keys(this.bandFollowers) as (keyof FrequencyBands)[]) {
+      bands[band] = this.bandFollowers[band].update(raw.bands[band]);
+    }
+
+    const smoothed = { bands } as EnvelopedFeatures;
+    for (const key of ENVELOPED_FEATURES) smoothed[key] = this.followers[key].update(raw[key]);
+
+    return smoothed;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * File Source - Decodes local tracks and plays them through Web Audio
+ * start/stop map to play/pause so the shared play state drives the transport
+ */
+
+import { AnalyserSource, AudioSourceError } from './audioSource';
+import { hashBytes } from './analysisCache';
+
+const SUPPORTED_EXTENSIONS = ['mp3', 'wav', 'ogg', 'oga', 'flac'];
+const SUPPORTED_MIME_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/ogg', 'audio/flac', 'audio/x-flac'];
+
+export const AUDIO_FILE_ACCEPT = [...SUPPORTED_EXTENSIONS.map(ext => `.${ext}`), ...SUPPORTED_MIME_TYPES].join(',');
+
+export class AudioFileSource extends AnalyserSource {
+  readonly kind = 'file' as const;
+
+  private buffer: AudioBuffer | null = null;
+  private hash: string | null = null;
+  private sourceNode: AudioBufferSourceNode | null = null;
+  private startedAt = 0;
+  private offset = 0;
+  private playing = false;
+  private readonly loadListeners = new Set<() => void>();
+
+  onEnded: (() => void) | null = null;
+
+  static isSupportedFile(file: File): boolean {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return SUPPORTED_EXTENSIONS.includes(extension) || SUPPORTED_MIME_TYPES.includes(file.type);
+  }
+
+  get duration(): number {
+    return this.buffer?.duration ?? 0;
+  }
+
+  get currentTime(): number {
+    if (!this.playing || !this.audioContext) return this.offset;
+    return Math.min(this.duration, this.offset + this.audioContext.currentTime - this.startedAt);
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** The whole decoded track, for analysis ahead of playback */
+  get decodedBuffer(): AudioBuffer | null {
+    return this.buffer;
+  }
+
+  /** Hash of the loaded file's bytes, which identifies its cached analysis; null if it could not be hashed */
+  get fileHash(): string | null {
+    return this.hash;
+  }
+
+  get isLoaded(): boolean {
+    return this.buffer !== null;
+  }
+
+  /** Subscribes to each newly decoded file, e.g. to analyse it before it plays; returns the unsubscribe function */
+  onLoad(listener: () => void): () => void {
+    this.loadListeners.add(listener);
+    return () => this.loadListeners.delete(listener);
+  }
+
+  async load(file: File): Promise<void> {
+    if (!AudioFileSource.isSupportedFile(file)) {
+      throw new AudioSourceError('unsupported', `"${file.name}" is not an MP3, WAV, OGG or FLAC file.`);
+    }
+
+    const context = this.ensureContext();
+    const bytes = await file.arrayBuffer();
+    // Decoding detaches the bytes, so they are hashed first
+    const hash = await hashBytes(bytes).catch(() => null);
+
+    let decoded: AudioBuffer;
+    try {
+      decoded = await context.decodeAudioData(bytes);
+    } catch {
+      throw new AudioSourceError('decode-failed', `"${file.name}" could not be decoded. The file may be corrupt or use a codec this browser does not support.`);
+    }
+
+    const wasPlaying = this.playing;
+    this.stopSource();
+    this.buffer = decoded;
+    this.hash = hash;
+    this.offset = 0;
+    this.loadListeners.forEach(listener => listener());
+
+    if (wasPlaying) await this.play();
+  }
+
+  start(): Promise<void> {
+    return this.play();
+  }
+
+  stop(): void {
+    this.pause();
+  }
+
+  async play(): Promise<void> {
+    if (!this.buffer || this.playing) return;
+
+    const context = this.ensureContext();
+    if (context.state === 'suspended') await context.resume();
+
+    const source = context.createBufferSource();
+    source.buffer = this.buffer;
+    source.connect(this.analyser!);
+    source.onended = () => {
+      // Only natural track ends count; pause and seek detach this handler first
+      if (this.sourceNode !== source) return;
+      this.sourceNode = null;
+      this.playing = false;
+      this.offset = 0;
+      this.onEnded?.();
+    };
+
+    source.start(0, this.offset);
+    this.sourceNode = source;
+    this.startedAt = context.currentTime;
+    this.playing = true;
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+
+    this.offset = this.currentTime;
+    this.stopSource();
+  }
+
+  seek(time: number): void {
+    const wasPlaying = this.playing;
+    const target = Math.max(0, Math.min(this.duration, time));
+
+    this.stopSource();
+    this.offset = target;
+
+    if (wasPlaying) this.play();
+  }
+
+  dispose(): void {
+    this.stopSource();
+    this.closeAnalyserGraph();
+
+    this.buffer = null;
+    this.hash = null;
+    this.offset = 0;
+  }
+
+  private ensureContext(): AudioContext {
+    if (this.audioContext) return this.audioContext;
+
+    const context = this.openAnalyserGraph();
+    this.analyser!.connect(context.destination);
+    return context;
+  }
+
+  private stopSource(): void {
+    if (this.sourceNode) {
+      this.sourceNode.onended = null;
+      this.sourceNode.stop();
+      this.sourceNode.disconnect();
+      this.sourceNode = null;
+    }
+
+    this.playing = false;
+  }
+}
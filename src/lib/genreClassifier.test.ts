@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { GENRES, GenreClassifier, parseGenreModel } from './genreClassifier';
+import { AudioFeatures } from './musicBrain';
+import { FRAME_RATE } from '@/test/signals';
+import genreModel from '../models/genre-model.json';
+
+/** Only the levels the thresholds read; the rest of a frame does not matter to an untrained model */
+const levels = (values: Partial<AudioFeatures>): AudioFeatures =>
+  ({ bass: 0, mid: 0, treble: 0, rhythm: 0, melody: 0, harmony: 0, energy: 0, ...values }) as AudioFeatures;
+
+describe('genre model', () => {
+  it('says where the bundled weights came from', () => {
+    expect(parseGenreModel(genreModel).source).not.toBe('');
+  });
+
+  it('rejects a model that does not say where its weights came from', () => {
+    const { source: _source, ...unsourced } = genreModel;
+    expect(() => parseGenreModel(unsourced)).toThrow('where its weights came from');
+  });
+});
+
+describe('GenreClassifier without weights', () => {
+  const classifier = new GenreClassifier(parseGenreModel(genreModel), FRAME_RATE);
+
+  it.each([
+    [{ bass: 0.8, energy: 0.7 }, 'electronic'],
+    [{ harmony: 0.8, energy: 0.3 }, 'classical'],
+    [{ rhythm: 0.7, bass: 0.6, energy: 0.5 }, 'rock'],
+    [{ harmony: 0.6, energy: 0.2 }, 'ambient'],
+    [{ mid: 0.7, melody: 0.6, energy: 0.5 }, 'voice'],
+    [{ energy: 0.5 }, 'acoustic']
+  ] as const)('names %o %s by the fixed thresholds', (values, expected) => {
+    const { genre, probabilities } = classifier.update(levels(values));
+
+    expect(genre).toBe(expected);
+    expect(probabilities[expected]).toBe(1);
+    expect(GENRES.reduce((sum, other) => sum + probabilities[other], 0)).toBe(1);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Genre Classifier - Multinomial logistic regression over a rolling summary of spectral and MFCC features
+ * Weights come from a JSON model trained offline on labelled feature dumps the app records itself;
+ * while the bundled model is untrained, a few fixed thresholds name the genre instead
+ */
+
+import { AudioFeatures, FrequencyBands } from './musicBrain';
+import { MFCC_COUNT } from './timbre';
+
+export type Genre = 'electronic' | 'acoustic' | 'classical' | 'rock' | 'ambient' | 'voice';
+
+/** A genre, or 'mixed' when no genre is clearly ahead */
+export type GenreHint = Genre | 'mixed';
+
+export const GENRES: Genre[] = ['electronic', 'acoustic', 'classical', 'rock', 'ambient', 'voice'];
+
+export const GENRE_MODEL_VERSION = 1;
+export const GENRE_DUMP_VERSION = 1;
+
+/** Model file as written by the training command */
+export interface GenreModel {
+  version: number;
+  /** Where the weights came from: the dumps they were fitted to, or why there are none */
+  source: string;
+  /** Genres the weights tell apart; empty for an untrained model */
+  genres: Genre[];
+  /** Names of the summary features the model reads, in weight order */
+  features: string[];
+  /** Standardization applied before the weights: (value - mean) / scale */
+  mean: number[];
+  scale: number[];
+  /** One row per genre, one column per feature */
+  weights: number[][];
+  bias: number[];
+}
+
+/** Labelled summary vectors recorded while music of one genre played */
+export interface GenreFeatureDump {
+  version: number;
+  label: Genre;
+  features: string[];
+  vectors: number[][];
+}
+
+export interface GenreEstimate {
+  probabilities: Record<Genre, number>;
+  genre: GenreHint;
+}
+
+/** Spelled out rather than read from FREQUENCY_BANDS, as the Music Brain imports this module */
+const BAND_KEYS: (keyof FrequencyBands)[] = ['subBass', 'bass', 'lowMid', 'mid', 'highMid', 'presence', 'brilliance'];
+
+/** Per-frame descriptors the summary is built from */
+const DESCRIPTORS: Record<string, (features: AudioFeatures) => number> = {
+  ...Object.fromEntries(
+    BAND_KEYS.map(band => [
+      `bands.${band}`,
+      (features: AudioFeatures) => features.bands[band]
+    ])
+  ),
+  centroid: features => features.spectral.centroid,
+  rolloff: features => features.spectral.rolloff,
+  flatness: features => features.spectral.flatness,
+  flux: features => features.spectral.flux,
+  crest: features => features.spectral.crest,
+  bass: features => features.bass,
+  mid: features => features.mid,
+  treble: features => features.treble,
+  rhythm: features => features.rhythm,
+  melody: features => features.melody,
+  harmony: features => features.harmony,
+  dynamics: features => features.dynamics,
+  energy: features => features.energy,
+  tempo: features => features.tempo,
+  tempoConfidence: features => features.tempoConfidence,
+  pitchConfidence: features => features.pitch.confidence,
+  ...Object.fromEntries(
+    Array.from({ length: MFCC_COUNT }, (_, k) => [`mfcc${k}`, (features: AudioFeatures) => features.mfcc[k] ?? 0])
+  )
+};
+const DESCRIPTOR_NAMES = Object.keys(DESCRIPTORS);
+
+/** Every feature a summary offers: the mean and standard deviation of each descriptor */
+export const SUMMARY_FEATURES = DESCRIPTOR_NAMES.flatMap(name => [`${name}.mean`, `${name}.std`]);
+
+/** Seconds of music each summary covers */
+const SUMMARY_SECONDS = 10;
+/** Seconds between the summaries a recording keeps; half a window, so neighbours overlap */
+const DUMP_HOP_SECONDS = 5;
+/** Below this probability for the leading genre, the hint is 'mixed' */
+const MIXED_BELOW = 0.4;
+
+/**
+ * The hand-set thresholds the app named genres with before it had a classifier. They stand in
+ * until a model trained on real recordings is bundled; no data backs them.
+ */
+export const thresholdGenre = (features: AudioFeatures): Genre => {
+  if (features.bass > 0.7 && features.energy > 0.6) return 'electronic';
+  if (features.harmony > 0.7 && features.energy < 0.4) return 'classical';
+  if (features.rhythm > 0.6 && features.bass > 0.5) return 'rock';
+  if (features.energy < 0.3 && features.harmony > 0.5) return 'ambient';
+  if (features.mid > 0.6 && features.melody > 0.5) return 'voice';
+  return 'acoustic';
+};
+
+const UNIFORM = Object.fromEntries(GENRES.map(genre => [genre, 1 / GENRES.length])) as Record<Genre, number>;
+
+/** Checks that parsed JSON is a usable model, so a bad retrain fails loudly instead of guessing */
+export const parseGenreModel = (data: unknown): GenreModel => {
+  const model = data as GenreModel;
+  const width = model?.features?.length;
+
+  if (model?.version !== GENRE_MODEL_VERSION) {
+    throw new Error(`Genre model version ${model?.version} is not supported; expected ${GENRE_MODEL_VERSION}.`);
+  }
+  if (typeof model.source !== 'string' || model.source.trim() === '') {
+    throw new Error('Genre model does not say where its weights came from.');
+  }
+  if (!model.genres?.every(genre => GENRES.includes(genre))) {
+    throw new Error('Genre model lists an unknown genre.');
+  }
+  const unknown = model.features.find(name => !SUMMARY_FEATURES.includes(name));
+  if (unknown) throw new Error(`Genre model reads "${unknown}", which the feature summary does not provide.`);
+  if (
+    model.mean?.length !== width ||
+    model.scale?.length !== width ||
+    model.bias?.length !== model.genres.length ||
+    model.weights?.length !== model.genres.length ||
+    model.weights.some(row => row.length !== width)
+  ) {
+    throw new Error('Genre model weights do not match its genre and feature lists.');
+  }
+
+  return model;
+};
+
+/** Mean and spread of every descriptor over the last few seconds */
+export class FeatureSummary {
+  private frames: number[][] = [];
+  private sums = new Array(DESCRIPTOR_NAMES.length).fill(0);
+  private squares = new Array(DESCRIPTOR_NAMES.length).fill(0);
+  private readonly windowFrames: number;
+
+  /**
+   * @param frameRate Analysis frames per second
+   */
+  constructor(frameRate: number) {
+    this.windowFrames = Math.max(1, Math.round(SUMMARY_SECONDS * frameRate));
+  }
+
+  /** True once a whole window has been heard */
+  get full(): boolean {
+    return this.frames.length >= this.windowFrames;
+  }
+
+  add(features: AudioFeatures): void {
+    const values = DESCRIPTOR_NAMES.map(name => DESCRIPTORS[name](features));
+    this.frames.push(values);
+    values.forEach((value, i) => {
+      this.sums[i] += value;
+      this.squares[i] += value * value;
+    });
+
+    if (this.frames.length > this.windowFrames) {
+      this.frames.shift().forEach((value, i) => {
+        this.sums[i] -= value;
+        this.squares[i] -= value * value;
+      });
+    }
+  }
+
+  /** Summary values in SUMMARY_FEATURES order */
+  vector(): number[] {
+    const count = this.frames.length || 1;
+    return DESCRIPTOR_NAMES.flatMap((_, i) => {
+      const mean = this.sums[i] / count;
+      return [mean, Math.sqrt(Math.max(0, this.squares[i] / count - mean * mean))];
+    });
+  }
+}
+
+export class GenreClassifier {
+  private readonly summary: FeatureSummary;
+  /** Where each model feature sits in a summary vector */
+  private readonly columns: number[];
+
+  /**
+   * @param model Trained weights, checked with parseGenreModel
+   * @param frameRate Analysis frames per second
+   */
+  constructor(private readonly model: GenreModel, frameRate: number) {
+    this.summary = new FeatureSummary(frameRate);
+    this.columns = model.features.map(name => SUMMARY_FEATURES.indexOf(name));
+  }
+
+  /** True when the model has weights; otherwise update falls back to thresholdGenre */
+  get trained(): boolean {
+    return this.model.genres.length > 0;
+  }
+
+  update(features: AudioFeatures): GenreEstimate {
+    if (!this.trained) {
+      const genre = thresholdGenre(features);
+      const probabilities = Object.fromEntries(GENRES.map(other => [other, other === genre ? 1 : 0])) as Record<Genre, number>;
+      return { probabilities, genre };
+    }
+
+    this.summary.add(features);
+    const probabilities = this.classify(this.summary.vector());
+
+    const [leader, share] = Object.entries(probabilities).reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    return { probabilities, genre: share >= MIXED_BELOW ? (leader as Genre) : 'mixed' };
+  }
+
+  /** Softmax over the genres the model knows; genres it was not trained on get 0 */
+  classify(summary: number[]): Record<Genre, number> {
+    const { genres, mean, scale, weights, bias } = this.model;
+    if (genres.length === 0) return { ...UNIFORM };
+
+    const inputs = this.columns.map((column, i) => (summary[column] - mean[i]) / (scale[i] || 1));
+    const scores = weights.map((row, g) => row.reduce((sum, weight, i) => sum + weight * inputs[i], bias[g]));
+    const top = Math.max(...scores);
+    const exponentials = scores.map(score => Math.exp(score - top));
+    const total = exponentials.reduce((sum, value) => sum + value, 0);
+
+    const probabilities = Object.fromEntries(GENRES.map(genre => [genre, 0])) as Record<Genre, number>;
+    genres.forEach((genre, g) => {
+      probabilities[genre] = exponentials[g] / total;
+    });
+    return probabilities;
+  }
+}
+
+/** Collects labelled summaries during playback for the training command */
+export class GenreDumpRecorder {
+  private readonly summary: FeatureSummary;
+  private readonly hopFrames: number;
+  private vectors: number[][] = [];
+  private sinceLast = 0;
+
+  /**
+   * @param label Genre of the music that will play while recording
+   * @param frameRate Analysis frames per second
+   */
+  constructor(readonly label: Genre, frameRate: number) {
+    this.summary = new FeatureSummary(frameRate);
+    this.hopFrames = Math.max(1, Math.round(DUMP_HOP_SECONDS * frameRate));
+  }
+
+  /** Summaries recorded so far */
+  get count(): number {
+    return this.vectors.length;
+  }
+
+  add(features: AudioFeatures): void {
+    this.summary.add(features);
+    this.sinceLast += 1;
+    if (!this.summary.full || this.sinceLast < this.hopFrames) return;
+
+    this.sinceLast = 0;
+    this.vectors.push(this.summary.vector());
+  }
+
+  dump(): GenreFeatureDump {
+    return { version: GENRE_DUMP_VERSION, label: this.label, features: SUMMARY_FEATURES, vectors: this.vectors };
+  }
+}
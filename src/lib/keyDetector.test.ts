@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { formatKey, KeyDetector, PITCH_CLASSES } from './keyDetector';
+import { formatChord } from './chordRecognizer';
+import { MusicBrain } from './musicBrain';
+import { summarizeSpectrum } from './spectralDescriptors';
+import { concat, FFT_SIZE, FRAME_RATE, HOP_SIZE, midiToHz, SAMPLE_RATE, spectra, tones } from '@/test/signals';
+
+/** MIDI notes of each chord: the root in the bass, then a close triad above it */
+const E_MINOR = [40, 52, 55, 59];
+const A_MINOR = [45, 57, 60, 64];
+const B_MINOR = [47, 59, 62, 66];
+const G_MAJOR = [43, 55, 59, 62];
+
+const CHORD_SECONDS = 2;
+
+const chord = (notes: number[], amplitude = 0.3) => tones(notes.map(midiToHz), CHORD_SECONDS, amplitude);
+
+/** Chroma of the last frame of a sound, as the Music Brain hands spectra to the key detector */
+const chromaOf = (samples: Float32Array): number[] => {
+  const detector = new KeyDetector(SAMPLE_RATE, FFT_SIZE, FRAME_RATE);
+  const frames = spectra(samples);
+  const { magnitudes } = summarizeSpectrum(frames[frames.length - 1].spectrum, null, SAMPLE_RATE / FFT_SIZE);
+  return detector.chromagram(magnitudes);
+};
+
+const strongest = (chroma: number[]): string => PITCH_CLASSES[chroma.indexOf(Math.max(...chroma))];
+
+describe('KeyDetector chroma', () => {
+  it.each([
+    [40, 'E'],
+    [43, 'G'],
+    [45, 'A'],
+    [47, 'B'],
+    [38, 'D']
+  ])('places the bass note %i in its pitch class', (note, pitchClass) => {
+    expect(strongest(chromaOf(tones([midiToHz(note)], 1, 0.1)))).toBe(pitchClass);
+  });
+
+  it('hears every note of a chord with its root in the bass', () => {
+    const chroma = chromaOf(chord(G_MAJOR));
+
+    // The root sounds in two octaves, so it leads
+    expect(strongest(chroma)).toBe('G');
+    for (const pitchClass of [11, 2]) expect(chroma[pitchClass]).toBeGreaterThan(0.4);
+    for (const pitchClass of [0, 4, 5, 9]) expect(chroma[pitchClass]).toBeLessThan(0.1);
+  });
+
+  it('still places a loud bass note whose peak the analyser clips', () => {
+    expect(strongest(chromaOf(tones([midiToHz(40)], 1, 1)))).toBe('E');
+  });
+});
+
+describe('KeyDetector with the Music Brain', () => {
+  it('follows an E minor i-iv-v-i and settles on E minor', () => {
+    const brain = new MusicBrain(SAMPLE_RATE, FFT_SIZE, HOP_SIZE);
+    const progression = [E_MINOR, A_MINOR, B_MINOR, E_MINOR];
+    const framesPerChord = Math.round(CHORD_SECONDS * FRAME_RATE);
+    const heard: string[] = [];
+    let key = '';
+
+    spectra(concat(...progression.map(notes => chord(notes)))).forEach(({ spectrum }, i) => {
+      const { context } = brain.analyzeAudio(spectrum);
+      // Read each chord late in its span, once the recognizer's hold has passed
+      if (i % framesPerChord === framesPerChord - 5) heard.push(formatChord(context.chord));
+      key = formatKey(context.key);
+    });
+
+    expect(heard).toEqual(['Em', 'Am', 'Bm', 'Em']);
+    expect(key).toBe('E minor');
+  });
+});
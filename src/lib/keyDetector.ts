@@ -0,0 +1,167 @@
+/**
+ * Key Detector - Folds the spectrum into a 12-bin chromagram and estimates the musical key
+ * Matches slowly accumulated chroma against Krumhansl-Kessler key profiles for all 24 keys
+ */
+
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const;
+
+export type KeyMode = 'major' | 'minor';
+
+export interface MusicalKey {
+  /** Pitch class of the tonic, 0 = C through 11 = B */
+  tonic: number;
+  mode: KeyMode;
+  /** Correlation of the accumulated chroma with the key's profile, 0-1 */
+  confidence: number;
+}
+
+/** Probe-tone ratings for each scale degree, starting at the tonic */
+const KEY_PROFILES: Record<KeyMode, number[]> = {
+  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+  minor: [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
+};
+
+/** Pitches outside this range are mostly rumble or overtones and blur the chroma */
+const MIN_PITCH_HZ = 55;
+const MAX_PITCH_HZ = 5000;
+/** Seconds of chroma the key estimate effectively averages over */
+const KEY_MEMORY_SECONDS = 8;
+
+export const formatKey = (key: MusicalKey): string => `${PITCH_CLASSES[key.tonic]} ${key.mode}`;
+
+/**
+ * Key that holds over a run of per-frame estimates: the one with the most confidence summed across
+ * its frames, reported with its mean confidence
+ */
+export const dominantKey = (keys: MusicalKey[]): MusicalKey => {
+  const votes = new Map<string, { key: MusicalKey; weight: number; frames: number }>();
+  for (const key of keys) {
+    const id = formatKey(key);
+    const vote = votes.get(id) ?? { key, weight: 0, frames: 0 };
+    votes.set(id, { key, weight: vote.weight + key.confidence, frames: vote.frames + 1 });
+  }
+
+  let winner: { key: MusicalKey; weight: number; frames: number } | null = null;
+  for (const vote of votes.values()) {
+    if (!winner || vote.weight > winner.weight) winner = vote;
+  }
+
+  return winner
+    ? { tonic: winner.key.tonic, mode: winner.key.mode, confidence: winner.weight / winner.frames }
+    : { tonic: 0, mode: 'major', confidence: 0 };
+};
+
+/** Pitch class (0-11, fractional) of a frequency in Hz, with A4 = 440 Hz */
+const pitchClassOf = (hz: number): number => (((12 * Math.log2(hz / 440) + 69) % 12) + 12) % 12;
+
+const correlate = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+
+  let numerator = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    numerator += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+
+  const denominator = Math.sqrt(varianceA * varianceB);
+  return denominator === 0 ? 0 : numerator / denominator;
+};
+
+export class KeyDetector {
+  private accumulated: number[] = new Array(12).fill(0);
+  private estimate: MusicalKey = { tonic: 0, mode: 'major', confidence: 0 };
+  private readonly memory: number;
+
+  /**
+   * @param sampleRate Sample rate of the analysed signal in Hz
+   * @param fftSize FFT length that produced the spectrum
+   * @param frameRate Analysis frames per second
+   */
+  constructor(
+    private readonly sampleRate: number,
+    private readonly fftSize: number,
+    frameRate: number
+  ) {
+    this.memory = Math.min(1, 1 / (KEY_MEMORY_SECONDS * frameRate));
+  }
+
+  get key(): MusicalKey {
+    return this.estimate;
+  }
+
+  /**
+   * Tonal amplitude per pitch class in this spectrum, scaled so the strongest class is 1.
+   * Each spectral peak counts once, at the frequency a parabola through it and its neighbours puts
+   * it. A low note's bin is wider than a semitone, but the peak's shape still says where in the bin
+   * the note sits, so bass roots reach the chroma instead of smearing across classes.
+   * @param amplitudes Linear magnitudes; on decibel levels every overtone looks nearly as loud as its fundamental
+   */
+  chromagram(amplitudes: number[]): number[] {
+    const chroma = new Array(12).fill(0);
+    const binWidth = this.sampleRate / this.fftSize;
+    const floor = amplitudes.reduce((sum, value) => sum + value, 0) / (amplitudes.length || 1);
+
+    for (let bin = 1; bin < amplitudes.length - 1; bin++) {
+      const value = amplitudes[bin];
+      if (value <= amplitudes[bin - 1]) continue;
+
+      // A loud peak clipped by the analyser is a flat run of bins; it is centred on the middle of the run
+      let end = bin;
+      while (end + 1 < amplitudes.length - 1 && amplitudes[end + 1] === value) end += 1;
+      if (amplitudes[end + 1] >= value) continue;
+
+      const hz = (end > bin ? (bin + end) / 2 : bin + this.peakOffset(amplitudes, bin)) * binWidth;
+      if (hz < MIN_PITCH_HZ || hz > MAX_PITCH_HZ) continue;
+
+      // Only the part of a peak standing out from the overall level counts as tonal
+      const level = value - floor;
+      if (level <= 0) continue;
+
+      // Split the peak between the two nearest pitch classes by distance
+      const pitchClass = pitchClassOf(hz);
+      const lower = Math.floor(pitchClass);
+      const fraction = pitchClass - lower;
+      chroma[lower % 12] += level * (1 - fraction);
+      chroma[(lower + 1) % 12] += level * fraction;
+    }
+
+    const peak = Math.max(...chroma);
+    return peak > 0 ? chroma.map(value => value / peak) : chroma;
+  }
+
+  /** Bins from a peak's centre to where its main lobe really peaks, from a parabola through the log magnitudes */
+  private peakOffset(amplitudes: number[], bin: number): number {
+    const left = Math.log(amplitudes[bin - 1] || Number.MIN_VALUE);
+    const centre = Math.log(amplitudes[bin]);
+    const right = Math.log(amplitudes[bin + 1] || Number.MIN_VALUE);
+    const denominator = left - 2 * centre + right;
+    return denominator < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denominator)) : 0;
+  }
+
+  /** Adds one frame's chroma to the running profile and re-estimates the key */
+  update(chroma: number[]): MusicalKey {
+    this.accumulated = this.accumulated.map((value, i) => value + (chroma[i] - value) * this.memory);
+
+    let best: MusicalKey = this.estimate;
+    let bestScore = -Infinity;
+
+    for (const mode of Object.keys(KEY_PROFILES) as KeyMode[]) {
+      for (let tonic = 0; tonic < 12; tonic++) {
+        // Rotate the profile so its first entry lands on the candidate tonic
+        const profile = KEY_PROFILES[mode].map((_, i) => KEY_PROFILES[mode][(i - tonic + 12) % 12]);
+        const score = correlate(this.accumulated, profile);
+        if (score > bestScore) {
+          bestScore = score;
+          best = { tonic, mode, confidence: Math.max(0, score) };
+        }
+      }
+    }
+
+    this.estimate = best;
+    return best;
+  }
+}
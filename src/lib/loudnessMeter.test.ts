@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { AutoGain, LoudnessMeter, LoudnessReading, SILENT_LOUDNESS } from './loudnessMeter';
+import { FRAME_RATE, HOP_SIZE, SAMPLE_RATE, tones } from '@/test/signals';
+
+/** The meter's reading after the whole of a sound, fed one hop at a time as the Music Brain does */
+const measure = (samples: Float32Array): LoudnessReading => {
+  const meter = new LoudnessMeter(SAMPLE_RATE, HOP_SIZE);
+  let reading = SILENT_LOUDNESS;
+  for (let end = HOP_SIZE; end <= samples.length; end += HOP_SIZE) {
+    reading = meter.update(Array.from(samples.subarray(Math.max(0, end - 4096), end)));
+  }
+  return reading;
+};
+
+const dbToAmplitude = (db: number) => 10 ** (db / 20);
+
+/** Gain after some seconds of a steady short-term loudness */
+const gainAfter = (autoGain: AutoGain, lufs: number, seconds: number): number => {
+  let gain = 0;
+  for (let frame = 0; frame < seconds * FRAME_RATE; frame++) gain = autoGain.update({ ...SILENT_LOUDNESS, shortTerm: lufs });
+  return gain;
+};
+
+describe('LoudnessMeter', () => {
+  // BS.1770 calibrates K-weighting so that a full-scale 1 kHz sine reads -3.01 LUFS
+  it.each([0, -10, -20, -40])('reads a 1 kHz sine peaking at %i dBFS as BS.1770 does', peakDb => {
+    const reading = measure(tones([1000], 4, dbToAmplitude(peakDb)));
+
+    expect(reading.momentary).toBeGreaterThan(peakDb - 3.01 - 0.5);
+    expect(reading.momentary).toBeLessThan(peakDb - 3.01 + 0.5);
+    expect(reading.shortTerm).toBeGreaterThan(peakDb - 3.01 - 0.5);
+    expect(reading.shortTerm).toBeLessThan(peakDb - 3.01 + 0.5);
+  });
+
+  it('gives the peak and RMS of a sine', () => {
+    const reading = measure(tones([1000], 1, dbToAmplitude(-20)));
+
+    expect(reading.peak).toBeCloseTo(-20, 1);
+    expect(reading.rms).toBeCloseTo(-23.01, 1);
+  });
+
+  it('weighs low bass down and presence up', () => {
+    const bass = measure(tones([30], 4, 0.1)).shortTerm;
+    const presence = measure(tones([4000], 4, 0.1)).shortTerm;
+    const reference = measure(tones([1000], 4, 0.1)).shortTerm;
+
+    expect(bass).toBeLessThan(reference - 3);
+    expect(presence).toBeGreaterThan(reference + 2);
+  });
+
+  it('reads silence at the floor', () => {
+    expect(measure(new Float32Array(SAMPLE_RATE)).momentary).toBe(SILENT_LOUDNESS.momentary);
+  });
+});
+
+describe('AutoGain', () => {
+  it('boosts a quiet input towards the target, no faster than it may slew', () => {
+    const autoGain = new AutoGain(FRAME_RATE);
+
+    expect(gainAfter(autoGain, -38, 1)).toBeCloseTo(3, 0);
+    // 20 dB below the -18 LUFS target
+    expect(gainAfter(autoGain, -38, 10)).toBeCloseTo(20, 1);
+  });
+
+  it('cuts a loud input towards the target', () => {
+    expect(gainAfter(new AutoGain(FRAME_RATE), -8, 10)).toBeCloseTo(-10, 1);
+  });
+
+  it('holds its gain through silence instead of boosting the noise floor', () => {
+    const autoGain = new AutoGain(FRAME_RATE);
+    const before = gainAfter(autoGain, -28, 5);
+
+    expect(gainAfter(autoGain, -90, 5)).toBe(before);
+  });
+
+  it('adds the sensitivity on top', () => {
+    const autoGain = new AutoGain(FRAME_RATE);
+    autoGain.setSensitivity(2);
+
+    expect(gainAfter(autoGain, -18, 1)).toBeCloseTo(6.02, 1);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Loudness Meter - K-weighted momentary and short-term loudness (ITU-R BS.1770), sample peak and RMS
+ * Also holds the auto-gain stage that steers every source towards the same loudness before analysis
+ */
+
+export interface LoudnessReading {
+  /** K-weighted loudness over the last 400 ms, in LUFS */
+  momentary: number;
+  /** K-weighted loudness over the last 3 s, in LUFS */
+  shortTerm: number;
+  /** Highest absolute sample of the last hop, in dBFS */
+  peak: number;
+  /** Unweighted RMS of the last hop, in dBFS */
+  rms: number;
+  /** Gain applied before analysis, in dB: auto-gain plus the sensitivity offset */
+  gain: number;
+}
+
+/** Readings never go below this, so silence stays a finite number that frames can blend */
+export const LOUDNESS_FLOOR = -100;
+
+export const SILENT_LOUDNESS: LoudnessReading = {
+  momentary: LOUDNESS_FLOOR,
+  shortTerm: LOUDNESS_FLOOR,
+  peak: LOUDNESS_FLOOR,
+  rms: LOUDNESS_FLOOR,
+  gain: 0
+};
+
+const MOMENTARY_SECONDS = 0.4;
+const SHORT_TERM_SECONDS = 3;
+
+/** Long-term loudness auto-gain aims for; a typical streaming master sits around -14 to -18 LUFS */
+const TARGET_LUFS = -18;
+/**
+ * Seconds of loudness auto-gain averages over. Long enough that a quiet verse still reads quieter
+ * than the chorus after it, so only the level of the recording as a whole is evened out.
+ */
+const LONG_TERM_SECONDS = 30;
+/** Limits on the automatic part of the gain, in dB */
+const MAX_BOOST_DB = 24;
+const MAX_CUT_DB = -12;
+/** Below this the input is treated as silence and the gain is held instead of boosted */
+const GATE_LUFS = -60;
+/** How fast the automatic gain may move, in dB per second, so it rides the level without pumping */
+const GAIN_SLEW_DB_PER_SECOND = 3;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/** The two BS.1770 K-weighting stages (head-related high shelf, then high-pass) for any sample rate */
+const kWeighting = (sampleRate: number): Biquad[] => {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    {
+      b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+      b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+      a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0
+    },
+    {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (passK * passK - 1)) / passA0,
+      a2: (1 - passK / passQ + passK * passK) / passA0
+    }
+  ];
+};
+
+const toDecibels = (power: number): number => Math.max(LOUDNESS_FLOOR, 10 * Math.log10(power));
+
+const toLufs = (meanSquare: number): number => Math.max(LOUDNESS_FLOOR, -0.691 + 10 * Math.log10(meanSquare));
+
+export class LoudnessMeter {
+  private readonly filters: Biquad[];
+  /** Per-stage filter memory: x[n-1], x[n-2], y[n-1], y[n-2] */
+  private readonly state: number[][];
+  private blocks: number[] = [];
+  private readonly momentaryBlocks: number;
+  private readonly shortTermBlocks: number;
+
+  /**
+   * @param sampleRate Sample rate of the waveform in Hz
+   * @param hopSize Samples between calls; only this many of the newest samples are new each time
+   */
+  constructor(sampleRate: number, private readonly hopSize: number) {
+    this.filters = kWeighting(sampleRate);
+    this.state = this.filters.map(() => [0, 0, 0, 0]);
+    this.momentaryBlocks = Math.max(1, Math.round((MOMENTARY_SECONDS * sampleRate) / hopSize));
+    this.shortTermBlocks = Math.max(1, Math.round((SHORT_TERM_SECONDS * sampleRate) / hopSize));
+  }
+
+  /** Measures the hop that ended with this waveform; gain is left at 0 for the auto-gain stage to fill in */
+  update(waveform: number[]): LoudnessReading {
+    if (waveform.length === 0) return SILENT_LOUDNESS;
+
+    const fresh = waveform.slice(-this.hopSize);
+    let peak = 0;
+    let power = 0;
+    let weightedPower = 0;
+
+    for (const sample of fresh) {
+      peak = Math.max(peak, Math.abs(sample));
+      power += sample * sample;
+
+      const weighted = this.filter(sample);
+      weightedPower += weighted * weighted;
+    }
+
+    this.blocks.push(weightedPower / fresh.length);
+    if (this.blocks.length > this.shortTermBlocks) this.blocks.shift();
+
+    return {
+      momentary: toLufs(this.average(this.momentaryBlocks)),
+      shortTerm: toLufs(this.average(this.shortTermBlocks)),
+      peak: toDecibels(peak * peak),
+      rms: toDecibels(power / fresh.length),
+      gain: 0
+    };
+  }
+
+  private filter(sample: number): number {
+    let value = sample;
+
+    this.filters.forEach((stage, i) => {
+      const memory = this.state[i];
+      const output = stage.b0 * value + stage.b1 * memory[0] + stage.b2 * memory[1] - stage.a1 * memory[2] - stage.a2 * memory[3];
+      memory[1] = memory[0];
+      memory[0] = value;
+      memory[3] = memory[2];
+      memory[2] = output;
+      value = output;
+    });
+
+    return value;
+  }
+
+  private average(count: number): number {
+    const recent = this.blocks.slice(-count);
+    return recent.reduce((sum, value) => sum + value, 0) / (recent.length || 1);
+  }
+}
+
+/**
+ * Auto Gain - Slowly steers long-term loudness towards a common target, so quiet recordings
+ * and loud masters drive the visuals alike. Sensitivity adds a fixed offset on top.
+ */
+export class AutoGain {
+  private automaticDb = 0;
+  private sensitivityDb = 0;
+  /** Running mean square behind the long-term loudness; null until something above the gate is heard */
+  private longTermPower: number | null = null;
+  private readonly slewPerFrame: number;
+  private readonly memory: number;
+
+  /**
+   * @param frameRate Analysis frames per second
+   */
+  constructor(frameRate: number) {
+    this.slewPerFrame = GAIN_SLEW_DB_PER_SECOND / frameRate;
+    this.memory = Math.min(1, 1 / (LONG_TERM_SECONDS * frameRate));
+  }
+
+  /** Sensitivity as a linear factor: 1 leaves normalization alone, 2 adds 6 dB, 0.5 takes 6 dB off */
+  setSensitivity(sensitivity: number): void {
+    this.sensitivityDb = 20 * Math.log10(Math.max(0.01, sensitivity));
+  }
+
+  /** Advances the gain one frame towards the target and returns the total gain in dB */
+  update(reading: LoudnessReading): number {
+    if (reading.shortTerm > GATE_LUFS) {
+      // Averaged as power, so loud passages weigh in as they would on an integrated meter
+      const power = 10 ** ((reading.shortTerm + 0.691) / 10);
+      this.longTermPower = this.longTermPower === null ? power : this.longTermPower + (power - this.longTermPower) * this.memory;
+
+      const wanted = Math.max(MAX_CUT_DB, Math.min(MAX_BOOST_DB, TARGET_LUFS - toLufs(this.longTermPower)));
+      const step = Math.max(-this.slewPerFrame, Math.min(this.slewPerFrame, wanted - this.automaticDb));
+      this.automaticDb += step;
+    }
+
+    return this.automaticDb + this.sensitivityDb;
+  }
+}
+
+/** Loudness after gain on a 30 dB scale from 24 dB below the target to 6 dB above it, as 0-1 */
+export const loudnessToEnergy = (lufs: number, gainDb: number): number =>
+  Math.max(0, Math.min(1, (lufs + gainDb - (TARGET_LUFS - 24)) / 30));
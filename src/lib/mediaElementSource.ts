@@ -0,0 +1,92 @@
+/**
+ * Media Element Source - Analyses an <audio>/<video> element or a stream URL
+ * A media element can only be wired into Web Audio once, so the graph lives until dispose
+ */
+
+import { AnalyserSource, AudioSourceError } from './audioSource';
+
+export class MediaElementSource extends AnalyserSource {
+  readonly kind = 'media' as const;
+
+  private element: HTMLMediaElement | null = null;
+  private sourceNode: MediaElementAudioSourceNode | null = null;
+  private readonly ownsElement: boolean;
+
+  constructor(private readonly input: HTMLMediaElement | string) {
+    super();
+    this.ownsElement = typeof input === 'string';
+  }
+
+  async start(): Promise<void> {
+    const element = this.ensureElement();
+    const context = this.ensureGraph(element);
+    if (context.state === 'suspended') await context.resume();
+
+    try {
+      await element.play();
+    } catch (error) {
+      throw this.toSourceError(error);
+    }
+  }
+
+  stop(): void {
+    this.element?.pause();
+  }
+
+  dispose(): void {
+    this.stop();
+    this.sourceNode?.disconnect();
+    this.closeAnalyserGraph();
+
+    if (this.element && this.ownsElement) {
+      this.element.removeAttribute('src');
+      this.element.load();
+    }
+
+    this.sourceNode = null;
+    this.element = null;
+  }
+
+  private ensureElement(): HTMLMediaElement {
+    if (this.element) return this.element;
+
+    if (typeof this.input !== 'string') {
+      this.element = this.input;
+      return this.element;
+    }
+
+    if (!this.input.trim()) {
+      throw new AudioSourceError('no-device', 'Enter a stream or media URL in the control panel.');
+    }
+
+    const audio = new Audio();
+    // Without CORS headers from the server the analyser only ever sees silence
+    audio.crossOrigin = 'anonymous';
+    audio.src = this.input.trim();
+    this.element = audio;
+    return audio;
+  }
+
+  private ensureGraph(element: HTMLMediaElement): AudioContext {
+    if (this.audioContext) return this.audioContext;
+
+    const context = this.openAnalyserGraph();
+    this.sourceNode = context.createMediaElementSource(element);
+    this.sourceNode.connect(this.analyser!);
+    this.analyser!.connect(context.destination);
+    return context;
+  }
+
+  private toSourceError(error: unknown): AudioSourceError {
+    const name = error instanceof DOMException ? error.name : '';
+
+    switch (name) {
+      case 'NotAllowedError':
+        return new AudioSourceError('permission-denied', 'The browser blocked playback. Press play again to start the stream.');
+      case 'NotSupportedError':
+        return new AudioSourceError('unsupported', 'This stream could not be played. Check the URL and its format.');
+      default:
+        return new AudioSourceError('unknown', error instanceof Error ? error.message : 'Could not start the media stream.');
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Microphone Source - Live capture through getUserMedia and an AnalyserNode
+ */
+
+import { AnalyserSource, AudioSourceError } from './audioSource';
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export class MicrophoneSource extends AnalyserSource {
+  readonly kind = 'microphone' as const;
+
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private stream: MediaStream | null = null;
+
+  constructor(private readonly deviceId?: string) {
+    super();
+  }
+
+  static async listDevices(): Promise<AudioInputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      // Device ids stay empty until the user has granted microphone permission once
+      .filter(device => device.kind === 'audioinput' && device.deviceId)
+      .map((device, i) => ({
+        deviceId: device.deviceId,
+        label: device.label || `Microphone ${i + 1}`
+      }));
+  }
+
+  async start(): Promise<void> {
+    this.stop();
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new AudioSourceError('unsupported', 'This browser does not support microphone capture.');
+    }
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: this.deviceId ? { exact: this.deviceId } : undefined,
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false
+        }
+      });
+    } catch (error) {
+      throw this.toSourceError(error);
+    }
+
+    const context = this.openAnalyserGraph();
+    this.sourceNode = context.createMediaStreamSource(this.stream);
+    this.sourceNode.connect(this.analyser!);
+  }
+
+  stop(): void {
+    this.sourceNode?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.closeAnalyserGraph();
+
+    this.sourceNode = null;
+    this.stream = null;
+  }
+
+  private toSourceError(error: unknown): AudioSourceError {
+    const name = error instanceof DOMException ? error.name : '';
+
+    switch (name) {
+      case 'NotAllowedError':
+      case 'SecurityError':
+        return new AudioSourceError('permission-denied', 'Microphone access was denied. Allow it in your browser settings and try again.');
+      case 'NotFoundError':
+      case 'OverconstrainedError':
+        return new AudioSourceError('no-device', 'No microphone was found. Connect an input device or pick another one.');
+      case 'NotReadableError':
+        return new AudioSourceError('unknown', 'The microphone is already in use by another application.');
+      default:
+        return new AudioSourceError('unknown', error instanceof Error ? error.message : 'Could not start the microphone.');
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { MoodEstimate, MoodFrame, MoodModel } from './moodModel';
+import { FRAME_RATE } from '@/test/signals';
+
+const MAJOR = { tonic: 0, mode: 'major', confidence: 1 } as const;
+const MINOR = { tonic: 9, mode: 'minor', confidence: 1 } as const;
+
+/** Loud, fast and bright in a major key */
+const JOYFUL: MoodFrame = { energy: 0.8, dynamics: 0.5, harmony: 0.9, bpm: 130, centroid: 4000, flux: 0.15, key: MAJOR, chord: { root: 0, quality: 'maj' } };
+/** Loud, fast and minor */
+const DRAMATIC: MoodFrame = { energy: 0.9, dynamics: 0.8, harmony: 0.5, bpm: 140, centroid: 2000, flux: 0.2, key: MINOR, chord: { root: 9, quality: 'min' } };
+/** Quiet, slow and major */
+const CALM: MoodFrame = { energy: 0.2, dynamics: 0.2, harmony: 0.9, bpm: 70, centroid: 2000, flux: 0.02, key: MAJOR, chord: { root: 0, quality: 'maj' } };
+/** Quiet, slow, dark and minor */
+const MELANCHOLIC: MoodFrame = { energy: 0.1, dynamics: 0.1, harmony: 0.6, bpm: 65, centroid: 600, flux: 0.02, key: MINOR, chord: { root: 9, quality: 'min' } };
+
+/** The estimate after some seconds of one frame repeated */
+const hold = (model: MoodModel, frame: MoodFrame, seconds: number): MoodEstimate => {
+  let estimate = model.update(frame);
+  for (let i = 1; i < seconds * FRAME_RATE; i++) estimate = model.update(frame);
+  return estimate;
+};
+
+describe('MoodModel', () => {
+  it.each([
+    ['joyful', JOYFUL, 1, 1],
+    ['dramatic', DRAMATIC, -1, 1],
+    ['calm', CALM, 1, -1],
+    ['melancholic', MELANCHOLIC, -1, -1]
+  ] as const)('places %s music in its quadrant and names it', (name, frame, valenceSign, arousalSign) => {
+    const estimate = hold(new MoodModel(FRAME_RATE), frame, 30);
+
+    expect(Math.sign(estimate.valence)).toBe(valenceSign);
+    expect(Math.sign(estimate.arousal)).toBe(arousalSign);
+    expect(estimate.name).toBe(name);
+  });
+
+  it('moves smoothly rather than jumping on the first frame', () => {
+    const estimate = new MoodModel(FRAME_RATE).update(JOYFUL);
+
+    expect(Math.abs(estimate.valence)).toBeLessThan(0.05);
+    expect(Math.abs(estimate.arousal)).toBeLessThan(0.05);
+  });
+
+  it('keeps its name through a short change of mood', () => {
+    const model = new MoodModel(FRAME_RATE);
+    hold(model, JOYFUL, 30);
+
+    expect(hold(model, MELANCHOLIC, 0.5).name).toBe('joyful');
+  });
+});
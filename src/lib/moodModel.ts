@@ -0,0 +1,130 @@
+/**
+ * Mood Model - Continuous valence and arousal, after Russell's circumplex model of affect
+ * Smoothed over several seconds, then named after the closest mood with hysteresis so the name holds still
+ */
+
+import { Chord, ChordQuality } from './chordRecognizer';
+import { MusicalKey } from './keyDetector';
+
+export type MoodName = 'calm' | 'joyful' | 'energetic' | 'dramatic' | 'mysterious' | 'melancholic';
+
+export interface MoodEstimate {
+  /** Unpleasant to pleasant, -1 to 1 */
+  valence: number;
+  /** Sleepy to excited, -1 to 1 */
+  arousal: number;
+  name: MoodName;
+}
+
+export interface MoodFrame {
+  energy: number;
+  dynamics: number;
+  /** How clearly the pitch content spells a chord, 0-1 */
+  harmony: number;
+  bpm: number;
+  /** Spectral centroid in Hz */
+  centroid: number;
+  /** Share of the spectrum that is new since the previous frame, 0-1 */
+  flux: number;
+  key: MusicalKey;
+  chord: Chord | null;
+}
+
+/** Where each named mood sits on the valence-arousal plane */
+export const MOOD_ANCHORS: Record<MoodName, { valence: number; arousal: number }> = {
+  calm: { valence: 0.5, arousal: -0.5 },
+  joyful: { valence: 0.6, arousal: 0.5 },
+  energetic: { valence: 0.2, arousal: 0.9 },
+  dramatic: { valence: -0.5, arousal: 0.6 },
+  mysterious: { valence: -0.3, arousal: -0.2 },
+  melancholic: { valence: -0.6, arousal: -0.7 }
+};
+
+export const MOOD_NAMES = Object.keys(MOOD_ANCHORS) as MoodName[];
+
+/** Pleasantness each chord quality lends, -1 to 1 */
+const CHORD_VALENCE: Record<ChordQuality, number> = {
+  maj: 1,
+  '7': 0.5,
+  sus2: 0.2,
+  sus4: 0.2,
+  min: -1,
+  dim: -1
+};
+
+/** Seconds the raw estimate is averaged over */
+const SMOOTHING_SECONDS = 4;
+/** A new name must be closer than the current one by this much, and stay so for a moment */
+const SWITCH_MARGIN = 0.15;
+const SWITCH_HOLD_SECONDS = 1;
+/** Centroids mapped from darkest to brightest, in Hz */
+const DARK_CENTROID = 500;
+const BRIGHT_CENTROID = 8000;
+/** Spectral flux that counts as fully busy */
+const BUSY_FLUX = 0.25;
+
+const clamp = (value: number, low = 0, high = 1) => Math.max(low, Math.min(high, value));
+
+const distanceTo = (name: MoodName, valence: number, arousal: number): number =>
+  Math.hypot(MOOD_ANCHORS[name].valence - valence, MOOD_ANCHORS[name].arousal - arousal);
+
+export class MoodModel {
+  private valence = 0;
+  private arousal = 0;
+  private name: MoodName = 'calm';
+  private candidate: MoodName | null = null;
+  private candidateFrames = 0;
+  private readonly smoothing: number;
+  private readonly holdFrames: number;
+
+  /**
+   * @param frameRate Analysis frames per second
+   */
+  constructor(frameRate: number) {
+    this.smoothing = Math.min(1, 1 / (SMOOTHING_SECONDS * frameRate));
+    this.holdFrames = Math.max(1, Math.round(SWITCH_HOLD_SECONDS * frameRate));
+  }
+
+  update(frame: MoodFrame): MoodEstimate {
+    this.valence += (this.rawValence(frame) - this.valence) * this.smoothing;
+    this.arousal += (this.rawArousal(frame) - this.arousal) * this.smoothing;
+    this.name = this.nameMood();
+
+    return { valence: this.valence, arousal: this.arousal, name: this.name };
+  }
+
+  /** Loud, fast, busy and dynamic music is arousing */
+  private rawArousal(frame: MoodFrame): number {
+    const tempo = clamp((frame.bpm - 60) / 120);
+    const busy = clamp(frame.flux / BUSY_FLUX);
+    return 2 * (0.4 * frame.energy + 0.25 * tempo + 0.2 * busy + 0.15 * frame.dynamics) - 1;
+  }
+
+  /** Major keys and chords, bright timbre and clear consonance read as pleasant */
+  private rawValence(frame: MoodFrame): number {
+    const mode = (frame.key.mode === 'major' ? 1 : -1) * frame.key.confidence;
+    const chord = frame.chord ? CHORD_VALENCE[frame.chord.quality] : 0;
+    const brightness = frame.centroid > 0
+      ? 2 * clamp(Math.log2(frame.centroid / DARK_CENTROID) / Math.log2(BRIGHT_CENTROID / DARK_CENTROID)) - 1
+      : 0;
+    const consonance = 2 * frame.harmony - 1;
+    return clamp(0.35 * mode + 0.25 * chord + 0.2 * brightness + 0.2 * consonance, -1, 1);
+  }
+
+  private nameMood(): MoodName {
+    const nearest = MOOD_NAMES.reduce((best, name) =>
+      distanceTo(name, this.valence, this.arousal) < distanceTo(best, this.valence, this.arousal) ? name : best
+    );
+
+    const gain = distanceTo(this.name, this.valence, this.arousal) - distanceTo(nearest, this.valence, this.arousal);
+    if (nearest === this.name || gain < SWITCH_MARGIN) {
+      this.candidate = null;
+      this.candidateFrames = 0;
+      return this.name;
+    }
+
+    this.candidateFrames = nearest === this.candidate ? this.candidateFrames + 1 : 1;
+    this.candidate = nearest;
+    return this.candidateFrames >= this.holdFrames ? nearest : this.name;
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { FrequencyBands, MusicBrain } from './musicBrain';
+import { clickTimes, clickTrack, FFT_SIZE, FRAME_RATE, HOP_SIZE, SAMPLE_RATE, spectra } from '@/test/signals';
+
+/** Band levels after a second of a full-scale sine, long enough for the analyser smoothing to settle */
+const bandsOfSine = (hz: number): FrequencyBands => {
+  const samples = Float32Array.from({ length: SAMPLE_RATE }, (_, i) => Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+  const brain = new MusicBrain(SAMPLE_RATE, FFT_SIZE, HOP_SIZE);
+
+  let bands: FrequencyBands | null = null;
+  for (const { spectrum } of spectra(samples)) bands = brain.analyzeAudio(spectrum).features.bands;
+  return bands!;
+};
+
+describe('MusicBrain band levels', () => {
+  it.each<[number, keyof FrequencyBands]>([
+    [40, 'subBass'],
+    [120, 'bass'],
+    [350, 'lowMid'],
+    [1000, 'mid'],
+    [3000, 'highMid'],
+    [5000, 'presence'],
+    [10000, 'brilliance']
+  ])('reads a full-scale %i Hz sine as a full %s band', (hz, band) => {
+    expect(bandsOfSine(hz)[band]).toBeGreaterThan(0.9);
+  });
+
+  it('leaves bands far from a tone silent', () => {
+    const bands = bandsOfSine(1000);
+
+    expect(bands.subBass).toBeLessThan(0.05);
+    expect(bands.bass).toBeLessThan(0.05);
+    expect(bands.presence).toBeLessThan(0.05);
+    expect(bands.brilliance).toBeLessThan(0.05);
+  });
+});
+
+describe('MusicBrain beat prediction', () => {
+  it.each([70, 120, 174])('predicts the beats of a %i BPM click track to within 10 ms', bpm => {
+    const clicks = clickTimes(bpm, 16, 0.3);
+    const brain = new MusicBrain(SAMPLE_RATE, FFT_SIZE, HOP_SIZE);
+    const errors: number[] = [];
+
+    for (const { time, spectrum } of spectra(clickTrack(bpm, 16, 0.3))) {
+      const { nextBeatIn } = brain.analyzeAudio(spectrum).context;
+      // Predictions close enough to act on, once tempo and phase have settled and before the clicks stop
+      if (time < 8 || time > 15 || nextBeatIn > 1 / FRAME_RATE) continue;
+
+      const predicted = time + nextBeatIn;
+      errors.push(Math.min(...clicks.map(click => Math.abs(click - predicted))));
+    }
+
+    expect(errors.length).toBeGreaterThan(((15 - 8) * bpm) / 60 - 2);
+    expect(Math.max(...errors)).toBeLessThan(0.01);
+  });
+});
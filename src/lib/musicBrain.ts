@@ -3,7 +3,56 @@
  * Understands rhythm, bass, melody, harmony, and dynamics
  */
 
+import { StereoChannels } from './audioSource';
+import { BEATS_PER_BAR, BeatState, BeatTracker } from './beatTracker';
+import { BuildUpDetector } from './buildUpDetector';
+import { Chord, ChordRecognizer } from './chordRecognizer';
+import { EnvelopedFeatures, EnvelopeOverrides, FeatureEnvelopes } from './envelopeFollower';
+import { Genre, GenreClassifier, GenreHint, parseGenreModel } from './genreClassifier';
+import { KeyDetector, MusicalKey } from './keyDetector';
+import { MoodModel, MoodName } from './moodModel';
+import { AutoGain, LoudnessMeter, LoudnessReading, loudnessToEnergy } from './loudnessMeter';
+import { applyGain, SpectralDescriptors, summarizeSpectrum } from './spectralDescriptors';
+import { PitchDetector, PitchEstimate } from './pitchDetector';
+import { Section, SectionSegmenter } from './sectionSegmenter';
+import { StereoAnalyser, StereoField } from './stereoField';
+import { OnsetDetector, PERCUSSION_BANDS, PERCUSSION_KINDS, PercussionHits, PercussionKind } from './onsetDetector';
+import { TempoTracker } from './tempoTracker';
+import { MelFilterbank } from './timbre';
+import genreModel from '../models/genre-model.json';
+
+/** Bundled once and shared by every brain, in the worker and on the main thread alike */
+const GENRE_MODEL = parseGenreModel(genreModel);
+
+export interface FrequencyBands {
+  subBass: number;
+  bass: number;
+  lowMid: number;
+  mid: number;
+  highMid: number;
+  presence: number;
+  brilliance: number;
+}
+
+/**
+ * How far into the analysis window an onset has moved, as a share of the window, when its spectral
+ * flux peaks. Measured on click tracks; the beat tracker needs it to place beats where they sound.
+ */
+const ONSET_WINDOW_DELAY = 0.2;
+
+/** Band edges in Hz, following the usual studio split of the audible range */
+export const FREQUENCY_BANDS: Record<keyof FrequencyBands, [number, number]> = {
+  subBass: [20, 60],
+  bass: [60, 250],
+  lowMid: [250, 500],
+  mid: [500, 2000],
+  highMid: [2000, 4000],
+  presence: [4000, 6000],
+  brilliance: [6000, 20000]
+};
+
 export interface AudioFeatures {
+  bands: FrequencyBands;
   bass: number;
   mid: number;
   treble: number;
@@ -13,41 +62,207 @@ export interface AudioFeatures {
   dynamics: number;
   energy: number;
   tempo: number;
-  mood: 'calm' | 'energetic' | 'dramatic' | 'mysterious' | 'joyful';
+  /** How periodic the onset envelope is at the reported tempo, 0-1; low values mean tempo is a guess */
+  tempoConfidence: number;
+  /** This frame's point on the onset envelope that tempo and beats are tracked from */
+  onset: number;
+  /** Tonal amplitude per pitch class C through B, scaled so the strongest is 1 */
+  chroma: number[];
+  spectral: SpectralDescriptors;
+  /** Mean level 0-1 per mel band, lowest first */
+  mel: number[];
+  /** Mel-frequency cepstral coefficients, a compact fingerprint of the timbre; sections are matched on them with timbreSimilarity */
+  mfcc: number[];
+  /** Fundamental of the leading voice or instrument, from the waveform */
+  pitch: PitchEstimate;
+  /** Meter readings of the raw input, before the gain they determined was applied */
+  loudness: LoudnessReading;
+  /** Width, balance and panning of the mix; a centred mono field for sources without stereo */
+  stereo: StereoField;
+  /** Unpleasant to pleasant, -1 to 1, smoothed over several seconds */
+  valence: number;
+  /** Sleepy to excited, -1 to 1, smoothed over several seconds */
+  arousal: number;
+  /** Named mood closest to the valence and arousal, held steady against small wobbles */
+  mood: MoodName;
+  /** The levels above through their attack and release envelopes; the plain fields stay raw */
+  smoothed: EnvelopedFeatures;
 }
 
 export interface MusicContext {
+  /** True on the frame a drop lands after a build-up */
   beatDrop: boolean;
+  /** How far through a build-up the music is, 0 outside one and 1 at the predicted drop */
+  buildUpProgress: number;
+  /** Seconds until the predicted drop, null when no build-up is under way */
+  dropIn: number | null;
   vocalPresence: boolean;
   instrumentalDensity: number;
   emotionalIntensity: number;
-  genreHint: 'electronic' | 'acoustic' | 'classical' | 'rock' | 'ambient' | 'voice' | 'mixed';
+  /**
+   * Most likely genre over the last several seconds, 'mixed' when none is clearly ahead; while the
+   * bundled genre model is untrained, this frame's reading of the fixed thresholds
+   */
+  genreHint: GenreHint;
+  /** Classifier probability of each genre, summing to 1 */
+  genreProbabilities: Record<Genre, number>;
+  /** Position within the current beat, 0 on the beat */
+  beatPhase: number;
+  beatIndex: number;
+  /** Beat within the bar, 0 on the downbeat */
+  barPosition: number;
+  /** Seconds from this frame until the next beat is predicted to sound */
+  nextBeatIn: number;
+  /** Kick, snare and hi-hat hits on this frame with their strength, 0 when the instrument did not strike */
+  percussion: PercussionHits;
+  key: MusicalKey;
+  /** Chord sounding now, null when nothing matches a chord template */
+  chord: Chord | null;
+  /** True on the frame where the chord changes */
+  chordChange: boolean;
+  /** Song section playing now, as far as the structure heard so far tells */
+  currentSection: Section;
+  /** True on the frame a new section is recognised, which is several seconds after it began */
+  sectionChange: boolean;
 }
 
 export class MusicBrain {
-  private previousFeatures: AudioFeatures | null = null;
+  private previousMagnitudes: number[] | null = null;
   private beatHistory: number[] = [];
   private energyHistory: number[] = [];
   private time = 0;
+  private readonly tempoTracker: TempoTracker;
+  private readonly beatTracker: BeatTracker;
+  private readonly onsetDetector: OnsetDetector;
+  private readonly keyDetector: KeyDetector;
+  private readonly chordRecognizer: ChordRecognizer;
+  private readonly pitchDetector: PitchDetector;
+  private readonly melFilterbank: MelFilterbank;
+  private readonly stereoAnalyser: StereoAnalyser;
+  private readonly loudnessMeter: LoudnessMeter;
+  private readonly autoGain: AutoGain;
+  private readonly sectionSegmenter: SectionSegmenter;
+  private readonly buildUpDetector: BuildUpDetector;
+  private readonly moodModel: MoodModel;
+  private readonly genreClassifier: GenreClassifier;
+  private readonly envelopes: FeatureEnvelopes;
+  private chordChange = false;
+
+  /**
+   * @param sampleRate Sample rate of the analysed signal in Hz
+   * @param fftSize FFT length that produced the spectrum; bin k is centred on k * sampleRate / fftSize
+   * @param hopSize Samples between consecutive analyzeAudio calls, which sets the onset frame rate
+   */
+  constructor(private readonly sampleRate = 44100, private readonly fftSize = 256, hopSize = 1024) {
+    this.tempoTracker = new TempoTracker(sampleRate / hopSize);
+    // An onset lands half a hop before the frame that reports it, on average, and later still in the window
+    const onsetLatency = (hopSize / 2 + ONSET_WINDOW_DELAY * fftSize) / sampleRate;
+    this.beatTracker = new BeatTracker(sampleRate / hopSize, BEATS_PER_BAR, onsetLatency);
+    this.onsetDetector = new OnsetDetector(sampleRate / hopSize);
+    this.keyDetector = new KeyDetector(sampleRate, fftSize, sampleRate / hopSize);
+    this.chordRecognizer = new ChordRecognizer(sampleRate / hopSize);
+    this.pitchDetector = new PitchDetector(sampleRate);
+    this.melFilterbank = new MelFilterbank(sampleRate, fftSize);
+    this.stereoAnalyser = new StereoAnalyser(sampleRate, fftSize, sampleRate / hopSize);
+    this.loudnessMeter = new LoudnessMeter(sampleRate, hopSize);
+    this.autoGain = new AutoGain(sampleRate / hopSize);
+    this.sectionSegmenter = new SectionSegmenter(sampleRate / hopSize);
+    this.buildUpDetector = new BuildUpDetector(sampleRate / hopSize);
+    this.moodModel = new MoodModel(sampleRate / hopSize);
+    this.genreClassifier = new GenreClassifier(GENRE_MODEL, sampleRate / hopSize);
+    this.envelopes = new FeatureEnvelopes(sampleRate / hopSize);
+  }
+
+  /**
+   * Scales the input on top of loudness normalization.
+   * @param sensitivity Linear factor; 1 analyses every source at the same loudness
+   */
+  setSensitivity(sensitivity: number): void {
+    this.autoGain.setSensitivity(sensitivity);
+  }
+
+  /**
+   * Retimes the smoothed features, as each visual mode wants its own feel.
+   * @param overrides Settings that differ from the defaults; replaces any given before
+   */
+  setEnvelopes(overrides: EnvelopeOverrides): void {
+    this.envelopes.setOverrides(overrides);
+  }
 
-  analyzeAudio(audioData: number[]): { features: AudioFeatures; context: MusicContext } {
+  /** Takes everything analysed so far as a complete track and returns its final segmentation */
+  finishSections(): Section[] {
+    return this.sectionSegmenter.finish();
+  }
+
+  /**
+   * Marks a beat at the current frame, as from a tap-tempo button.
+   * @param bpm Tempo measured from the taps, when there were enough of them to measure
+   */
+  tap(bpm?: number): void {
+    if (bpm) this.tempoTracker.correct(bpm);
+    this.beatTracker.tap();
+  }
+
+  /**
+   * @param audioData Analyser spectrum, levels 0-1
+   * @param waveform Time-domain samples -1 to 1 ending at the same moment; without them loudness is
+   * not metered, energy falls back to the spectrum level and pitch is unvoiced
+   * @param stereo Waveforms of both channels ending at the same moment; null analyses the input as mono
+   */
+  analyzeAudio(
+    audioData: number[],
+    waveform: number[] = [],
+    stereo: StereoChannels | null = null
+  ): { features: AudioFeatures; context: MusicContext } {
     this.time += 1;
+
+    // Meter the raw input, then bring it to the common loudness before anything else reads it
+    const measured = this.loudnessMeter.update(waveform);
+    const gain = this.autoGain.update(measured);
+    const loudness = { ...measured, gain };
+    const levels = applyGain(audioData, gain);
+    const samples = waveform.map(sample => sample * 10 ** (gain / 20));
     
     // Extract frequency bands
-    const bass = this.extractBass(audioData);
-    const mid = this.extractMid(audioData);
-    const treble = this.extractTreble(audioData);
+    const bands = this.extractBands(levels);
+    const bass = this.bandLevel(levels, FREQUENCY_BANDS.subBass[0], FREQUENCY_BANDS.bass[1]);
+    const mid = this.bandLevel(levels, FREQUENCY_BANDS.lowMid[0], FREQUENCY_BANDS.highMid[1]);
+    const treble = this.bandLevel(levels, FREQUENCY_BANDS.presence[0], FREQUENCY_BANDS.brilliance[1]);
+
+    // One pass over the spectrum for its shape and level statistics
+    const { summary, magnitudes } = summarizeSpectrum(levels, this.previousMagnitudes, this.sampleRate / this.fftSize);
+    const spectral = summary.descriptors;
+    this.previousMagnitudes = magnitudes;
+    const { mel, mfcc } = this.melFilterbank.analyse(magnitudes);
     
     // Analyze musical elements
     const rhythm = this.analyzeRhythm(bass, mid);
-    const melody = this.analyzeMelody(mid, treble);
-    const harmony = this.analyzeHarmony(audioData);
-    const dynamics = this.analyzeDynamics(audioData);
-    const energy = this.calculateEnergy(audioData);
-    const tempo = this.estimateTempo(rhythm);
-    const mood = this.determineMood(energy, harmony, dynamics);
+    const melody = this.analyzeMelody(mid, spectral);
+    const chroma = this.keyDetector.chromagram(magnitudes);
+    const harmony = this.analyzeHarmony(chroma);
+    const dynamics = Math.min(1, summary.deviation * 2);
+    const energy = waveform.length > 0 ? loudnessToEnergy(measured.momentary, gain) : Math.min(1, summary.rms * 2);
+    const onset = this.tempoTracker.addFrame(levels);
+    const { bpm: tempo, confidence: tempoConfidence } = this.tempoTracker.tempo;
+    const beat = this.beatTracker.update(onset, bass, tempo);
+    const pitch = this.pitchDetector.detect(samples);
+    // Panning compares the channels with each other, so the common gain makes no difference to it
+    const stereoField = this.stereoAnalyser.update(stereo);
+    // The key settles over seconds, so last frame's estimate is as good as this one's for mood
+    const { valence, arousal, name: mood } = this.moodModel.update({
+      energy,
+      dynamics,
+      harmony,
+      bpm: tempo,
+      centroid: spectral.centroid,
+      flux: spectral.flux,
+      key: this.keyDetector.key,
+      chord: this.chordRecognizer.chord
+    });
+    const smoothed = this.envelopes.update({ bands, bass, mid, treble, rhythm, melody, harmony, dynamics, energy });
 
     const features: AudioFeatures = {
+      bands,
       bass,
       mid,
       treble,
@@ -57,31 +272,61 @@ export class MusicBrain {
       dynamics,
       energy,
       tempo,
-      mood
+      tempoConfidence,
+      onset,
+      chroma,
+      spectral,
+      mel,
+      mfcc,
+      pitch,
+      loudness,
+      stereo: stereoField,
+      valence,
+      arousal,
+      mood,
+      smoothed
     };
 
     // Analyze musical context
-    const context = this.analyzeContext(features, audioData);
+    const context = this.analyzeContext(features, levels, beat);
     
-    this.previousFeatures = features;
     this.updateHistory(rhythm, energy);
     
     return { features, context };
   }
 
-  private extractBass(audioData: number[]): number {
-    const bassRange = audioData.slice(0, 32);
-    return bassRange.reduce((sum, val) => sum + val, 0) / bassRange.length;
-  }
+  private extractBands(audioData: number[]): FrequencyBands {
+    const bands = {} as FrequencyBands;
+
+    for (const band of Object.keys(FREQUENCY_BANDS) as (keyof FrequencyBands)[]) {
+      const [lowHz, highHz] = FREQUENCY_BANDS[band];
+      bands[band] = this.bandLevel(audioData, lowHz, highHz);
+    }
 
-  private extractMid(audioData: number[]): number {
-    const midRange = audioData.slice(32, 96);
-    return midRange.reduce((sum, val) => sum + val, 0) / midRange.length;
+    return bands;
   }
 
-  private extractTreble(audioData: number[]): number {
-    const trebleRange = audioData.slice(96);
-    return trebleRange.reduce((sum, val) => sum + val, 0) / trebleRange.length;
+  /**
+   * Loudest bin between two frequencies. Each bin covers half a bin width either side of its centre
+   * and counts when any of that span falls inside the band, so bands narrower than a bin still read
+   * the bin that contains them. A mean would let a single tone in a wide band read near silence.
+   */
+  private bandLevel(audioData: number[], lowHz: number, highHz: number): number {
+    const binWidth = this.sampleRate / this.fftSize;
+    const upperHz = Math.min(highHz, this.sampleRate / 2);
+    if (upperHz <= lowHz || audioData.length === 0) return 0;
+
+    const firstBin = Math.max(0, Math.floor(lowHz / binWidth - 0.5));
+    const lastBin = Math.min(audioData.length - 1, Math.ceil(upperHz / binWidth + 0.5));
+
+    let peak = 0;
+
+    for (let bin = firstBin; bin <= lastBin; bin++) {
+      const overlap = Math.min((bin + 0.5) * binWidth, upperHz) - Math.max((bin - 0.5) * binWidth, lowHz);
+      if (overlap > 0) peak = Math.max(peak, audioData[bin]);
+    }
+
+    return peak;
   }
 
   private analyzeRhythm(bass: number, mid: number): number {
@@ -98,122 +343,85 @@ export class MusicBrain {
     return rhythmicStrength;
   }
 
-  private analyzeMelody(mid: number, treble: number): number {
-    // Melody detection focuses on mid-to-high frequencies
-    const melodicContent = (mid * 0.6 + treble * 0.8);
-    
-    // Detect melodic movement
-    if (this.previousFeatures) {
-      const movement = Math.abs(melodicContent - (this.previousFeatures.mid * 0.6 + this.previousFeatures.treble * 0.8));
-      return Math.min(1, melodicContent + movement * 0.3);
-    }
-    
-    return melodicContent;
-  }
-
-  private analyzeHarmony(audioData: number[]): number {
-    // Simplified harmonic analysis based on frequency distribution
-    const segments = 8;
-    const segmentSize = Math.floor(audioData.length / segments);
-    let harmonyScore = 0;
-    
-    for (let i = 0; i < segments - 1; i++) {
-      const segment1 = audioData.slice(i * segmentSize, (i + 1) * segmentSize);
-      const segment2 = audioData.slice((i + 1) * segmentSize, (i + 2) * segmentSize);
-      
-      const correlation = this.calculateCorrelation(segment1, segment2);
-      harmonyScore += correlation;
-    }
-    
-    return harmonyScore / (segments - 1);
-  }
-
-  private analyzeDynamics(audioData: number[]): number {
-    const total = audioData.reduce((sum, val) => sum + val, 0);
-    const average = total / audioData.length;
-    
-    // Calculate variance for dynamics
-    const variance = audioData.reduce((sum, val) => sum + Math.pow(val - average, 2), 0) / audioData.length;
-    return Math.min(1, Math.sqrt(variance) * 2);
-  }
-
-  private calculateEnergy(audioData: number[]): number {
-    const rms = Math.sqrt(audioData.reduce((sum, val) => sum + val * val, 0) / audioData.length);
-    return Math.min(1, rms * 2);
-  }
-
-  private estimateTempo(rhythm: number): number {
-    // Simplified tempo estimation based on rhythm strength and history
-    if (this.beatHistory.length < 8) return 120; // Default BPM
-    
-    const recentBeats = this.beatHistory.slice(-8);
-    const avgBeatStrength = recentBeats.reduce((sum, beat) => sum + beat, 0) / recentBeats.length;
-    
-    // Map rhythm strength to estimated BPM (60-180 range)
-    return 60 + (avgBeatStrength * 120);
+  private analyzeMelody(mid: number, spectral: SpectralDescriptors): number {
+    // Melodies are tonal lines in the mid range: mid-band level, discounted by how noise-like the spectrum is
+    return Math.min(1, mid * (1 - spectral.flatness) * 1.5);
   }
 
-  private determineMood(energy: number, harmony: number, dynamics: number): AudioFeatures['mood'] {
-    if (energy < 0.3 && harmony > 0.6) return 'calm';
-    if (energy > 0.7 && dynamics > 0.5) return 'energetic';
-    if (harmony < 0.4 && dynamics > 0.6) return 'dramatic';
-    if (energy < 0.5 && harmony < 0.5) return 'mysterious';
-    return 'joyful';
+  private analyzeHarmony(chroma: number[]): number {
+    // How clearly the pitch content spells a chord: 1 for a clean triad, 0 for flat chroma such as noise,
+    // which still matches any triad template at 0.5
+    this.chordChange = this.chordRecognizer.update(chroma);
+    return Math.max(0, (this.chordRecognizer.clarity - 0.5) / 0.5);
   }
 
-  private analyzeContext(features: AudioFeatures, audioData: number[]): MusicContext {
-    const beatDrop = this.detectBeatDrop(features);
+  private analyzeContext(features: AudioFeatures, audioData: number[], beat: BeatState): MusicContext {
     const vocalPresence = this.detectVocalPresence(audioData);
-    const instrumentalDensity = this.calculateInstrumentalDensity(audioData);
+    // A full arrangement spreads energy evenly across the spectrum; a solo instrument leaves a few peaks
+    const instrumentalDensity = features.spectral.flatness;
     const emotionalIntensity = (features.energy + features.dynamics + features.harmony) / 3;
-    const genreHint = this.detectGenre(features);
+    const genre = this.genreClassifier.update(features);
+    const percussionLevels = this.percussionLevels(audioData);
+    const percussion = this.onsetDetector.update(percussionLevels);
+    const buildUp = this.buildUpDetector.update({
+      bass: features.bass,
+      treble: features.treble,
+      centroid: features.spectral.centroid,
+      snare: percussionLevels.snare,
+      beat,
+      bpm: features.tempo
+    });
+    const key = this.keyDetector.update(features.chroma);
+    const sectionChange = this.sectionSegmenter.addFrame({
+      loudness: features.loudness.momentary,
+      bands: (Object.keys(FREQUENCY_BANDS) as (keyof FrequencyBands)[]).map(band => features.bands[band]),
+      chroma: features.chroma,
+      mfcc: features.mfcc
+    });
 
     return {
-      beatDrop,
+      beatDrop: buildUp.drop,
+      buildUpProgress: buildUp.progress,
+      dropIn: buildUp.dropIn,
       vocalPresence,
       instrumentalDensity,
       emotionalIntensity,
-      genreHint
+      genreHint: genre.genre,
+      genreProbabilities: genre.probabilities,
+      beatPhase: beat.phase,
+      beatIndex: beat.beatIndex,
+      barPosition: beat.barPosition,
+      nextBeatIn: beat.nextBeatIn,
+      percussion,
+      key,
+      chord: this.chordRecognizer.chord,
+      chordChange: this.chordChange,
+      currentSection: this.sectionSegmenter.current,
+      sectionChange
     };
   }
 
-  private detectBeatDrop(features: AudioFeatures): boolean {
-    if (!this.previousFeatures) return false;
-    
-    const bassIncrease = features.bass - this.previousFeatures.bass;
-    const energyIncrease = features.energy - this.previousFeatures.energy;
-    
-    return bassIncrease > 0.3 && energyIncrease > 0.2;
+  private percussionLevels(audioData: number[]): Record<PercussionKind, number> {
+    const levels = {} as Record<PercussionKind, number>;
+
+    for (const kind of PERCUSSION_KINDS) {
+      const [lowHz, highHz] = PERCUSSION_BANDS[kind];
+      levels[kind] = this.bandLevel(audioData, lowHz, highHz);
+    }
+
+    return levels;
   }
 
   private detectVocalPresence(audioData: number[]): boolean {
-    // Vocal frequencies typically in 85Hz-255Hz and 2kHz-4kHz
-    const vocalLow = audioData.slice(8, 24);
-    const vocalHigh = audioData.slice(80, 120);
+    // Vocal fundamentals sit around 85Hz-255Hz, intelligibility formants around 2kHz-4kHz
+    const vocalLow = this.bandLevel(audioData, 85, 255);
+    const vocalHigh = this.bandLevel(audioData, 2000, 4000);
     
-    const vocalScore = (
-      vocalLow.reduce((sum, val) => sum + val, 0) / vocalLow.length +
-      vocalHigh.reduce((sum, val) => sum + val, 0) / vocalHigh.length
-    ) / 2;
+    const vocalScore = (vocalLow + vocalHigh) / 2;
     
     return vocalScore > 0.4;
   }
 
-  private calculateInstrumentalDensity(audioData: number[]): number {
-    // Calculate how "full" the frequency spectrum is
-    const nonZeroFreqs = audioData.filter(val => val > 0.1).length;
-    return nonZeroFreqs / audioData.length;
-  }
-
-  private detectGenre(features: AudioFeatures): MusicContext['genreHint'] {
-    if (features.bass > 0.7 && features.energy > 0.6) return 'electronic';
-    if (features.harmony > 0.7 && features.energy < 0.4) return 'classical';
-    if (features.rhythm > 0.6 && features.bass > 0.5) return 'rock';
-    if (features.energy < 0.3 && features.harmony > 0.5) return 'ambient';
-    if (features.mid > 0.6 && features.melody > 0.5) return 'voice';
-    return 'acoustic';
-  }
-
   private calculateConsistency(values: number[]): number {
     if (values.length < 2) return 0;
     
@@ -223,29 +431,6 @@ export class MusicBrain {
     return Math.max(0, 1 - Math.sqrt(variance));
   }
 
-  private calculateCorrelation(arr1: number[], arr2: number[]): number {
-    if (arr1.length !== arr2.length) return 0;
-    
-    const mean1 = arr1.reduce((sum, val) => sum + val, 0) / arr1.length;
-    const mean2 = arr2.reduce((sum, val) => sum + val, 0) / arr2.length;
-    
-    let numerator = 0;
-    let denominator1 = 0;
-    let denominator2 = 0;
-    
-    for (let i = 0; i < arr1.length; i++) {
-      const diff1 = arr1[i] - mean1;
-      const diff2 = arr2[i] - mean2;
-      
-      numerator += diff1 * diff2;
-      denominator1 += diff1 * diff1;
-      denominator2 += diff2 * diff2;
-    }
-    
-    const denominator = Math.sqrt(denominator1 * denominator2);
-    return denominator === 0 ? 0 : numerator / denominator;
-  }
-
   private updateHistory(rhythm: number, energy: number): void {
     this.beatHistory.push(rhythm);
     this.energyHistory.push(energy);
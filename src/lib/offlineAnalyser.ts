@@ -0,0 +1,85 @@
+/**
+ * Offline Analyser - Reproduces AnalyserNode's byte spectrum from raw samples
+ * Lets decoded files be analysed ahead of playback with the same levels a live analyser would report
+ */
+
+/** Decibel range mapped onto 0-1, as AnalyserNode's minDecibels and maxDecibels defaults */
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+/** In-place iterative radix-2 FFT; length must be a power of two */
+export const fft = (real: Float64Array, imag: Float64Array): void => {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const re = real[b] * cos - imag[b] * sin;
+        const im = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - re;
+        imag[b] = imag[a] - im;
+        real[a] += re;
+        imag[a] += im;
+      }
+    }
+  }
+};
+
+export class OfflineAnalyser {
+  private readonly window: Float64Array;
+  private readonly smoothed: Float64Array;
+
+  /**
+   * @param fftSize Power-of-two FFT length, as AnalyserNode.fftSize
+   * @param smoothing Averaging between successive frames, as AnalyserNode.smoothingTimeConstant
+   */
+  constructor(readonly fftSize: number, private readonly smoothing = 0.8) {
+    // Blackman window, the one the Web Audio spec prescribes
+    this.window = Float64Array.from({ length: fftSize }, (_, i) => {
+      const x = (2 * Math.PI * i) / fftSize;
+      return 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+    });
+    this.smoothed = new Float64Array(fftSize / 2);
+  }
+
+  /**
+   * Spectrum of the fftSize samples ending at `end`, as getByteFrequencyData would report it scaled
+   * to 0-1. Calls must move forward through the track, since each frame is smoothed with the last.
+   */
+  analyse(samples: Float32Array, end: number): number[] {
+    const real = new Float64Array(this.fftSize);
+    const imag = new Float64Array(this.fftSize);
+    const offset = end - this.fftSize;
+
+    for (let i = 0; i < this.fftSize; i++) {
+      const index = offset + i;
+      real[i] = index >= 0 && index < samples.length ? samples[index] * this.window[i] : 0;
+    }
+    fft(real, imag);
+
+    return Array.from(this.smoothed, (previous, bin) => {
+      const magnitude = Math.hypot(real[bin], imag[bin]) / this.fftSize;
+      const value = this.smoothing * previous + (1 - this.smoothing) * magnitude;
+      this.smoothed[bin] = value;
+
+      const decibels = value > 0 ? 20 * Math.log10(value) : -Infinity;
+      const byte = Math.floor((255 * (decibels - MIN_DECIBELS)) / (MAX_DECIBELS - MIN_DECIBELS));
+      return Math.max(0, Math.min(255, byte)) / 255;
+    });
+  }
+}
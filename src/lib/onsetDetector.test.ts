@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { NO_HITS, OnsetDetector } from './onsetDetector';
+import { FRAME_RATE } from '@/test/signals';
+
+/** Frames of an impulse train in one band: a full-level frame every `spacing` frames, silence between */
+const impulseTrain = (frames: number, spacing: number): number[] =>
+  Array.from({ length: frames }, (_, i) => (i % spacing === 0 ? 1 : 0));
+
+describe('OnsetDetector', () => {
+  it('reports a kick on every impulse of a train and nothing between', () => {
+    const detector = new OnsetDetector(FRAME_RATE);
+    const hitFrames: number[] = [];
+
+    impulseTrain(10 * 20, 20).forEach((level, frame) => {
+      const hits = detector.update({ ...NO_HITS, kick: level });
+      if (hits.kick > 0) hitFrames.push(frame);
+      expect(hits.snare).toBe(0);
+      expect(hits.hat).toBe(0);
+    });
+
+    expect(hitFrames).toEqual(Array.from({ length: 10 }, (_, i) => i * 20));
+  });
+
+  it('stays quiet on a steady level once it has risen', () => {
+    const detector = new OnsetDetector(FRAME_RATE);
+    const hits = Array.from({ length: 100 }, () => detector.update({ kick: 0.5, snare: 0.5, hat: 0.5 }));
+
+    expect(hits.slice(1).every(hit => hit.kick === 0 && hit.snare === 0 && hit.hat === 0)).toBe(true);
+  });
+
+  it('holds back a second hit inside the refractory gap', () => {
+    const detector = new OnsetDetector(FRAME_RATE);
+    // Two snare impulses two frames (about 46 ms) apart, inside the 100 ms gap
+    const hits = [1, 0, 1, 0].map(level => detector.update({ ...NO_HITS, snare: level }).snare);
+
+    expect(hits[0]).toBeGreaterThan(0);
+    expect(hits[2]).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Onset Detector - Turns per-band level rises into discrete percussion hits
+ * Each band keeps its own adaptive threshold so quiet passages still register and loud ones do not flood
+ */
+
+export type PercussionKind = 'kick' | 'snare' | 'hat';
+
+/** Strength of the hit detected on this frame for each instrument, 0 when nothing struck */
+export type PercussionHits = Record<PercussionKind, number>;
+
+/** Frequency range in Hz where each instrument's attack is most distinct */
+export const PERCUSSION_BANDS: Record<PercussionKind, [number, number]> = {
+  kick: [30, 150],
+  snare: [1000, 4000],
+  hat: [7000, 16000]
+};
+
+export const PERCUSSION_KINDS = Object.keys(PERCUSSION_BANDS) as PercussionKind[];
+
+export const NO_HITS: PercussionHits = { kick: 0, snare: 0, hat: 0 };
+
+/** Shortest gap between two hits of the same instrument, in seconds */
+const REFRACTORY_SECONDS: Record<PercussionKind, number> = {
+  kick: 0.1,
+  snare: 0.1,
+  hat: 0.05
+};
+
+/** How many mean deviations above the mean rise a band must jump to count as a hit */
+const THRESHOLD_DEVIATIONS = 2.5;
+/** Rises below this never count, so silence and noise floors stay quiet */
+const MIN_RISE = 0.02;
+/** Time constant of the running rise statistics, in seconds */
+const ADAPTATION_SECONDS = 1;
+
+interface BandState {
+  previousLevel: number;
+  meanRise: number;
+  deviation: number;
+  framesSinceHit: number;
+}
+
+export class OnsetDetector {
+  private readonly bands: Record<PercussionKind, BandState>;
+  private readonly adaptation: number;
+
+  /**
+   * @param frameRate Analysis frames per second
+   */
+  constructor(private readonly frameRate: number) {
+    this.adaptation = Math.min(1, 1 / (ADAPTATION_SECONDS * frameRate));
+    this.bands = {} as Record<PercussionKind, BandState>;
+    for (const kind of PERCUSSION_KINDS) {
+      this.bands[kind] = { previousLevel: 0, meanRise: 0, deviation: 0, framesSinceHit: Infinity };
+    }
+  }
+
+  /** Feeds this frame's level (0-1) in each percussion band and returns the hits it contains */
+  update(levels: Record<PercussionKind, number>): PercussionHits {
+    const hits = { ...NO_HITS };
+
+    for (const kind of PERCUSSION_KINDS) {
+      const band = this.bands[kind];
+      const rise = Math.max(0, levels[kind] - band.previousLevel);
+      band.previousLevel = levels[kind];
+      band.framesSinceHit += 1;
+
+      const threshold = Math.max(MIN_RISE, band.meanRise + THRESHOLD_DEVIATIONS * band.deviation);
+      const refractoryFrames = REFRACTORY_SECONDS[kind] * this.frameRate;
+
+      if (rise > threshold && band.framesSinceHit >= refractoryFrames) {
+        // Strength grows with how far the rise clears the threshold, saturating towards 1
+        hits[kind] = 1 - Math.exp(-(rise - threshold) / threshold - 0.5);
+        band.framesSinceHit = 0;
+      }
+
+      band.deviation += (Math.abs(rise - band.meanRise) - band.deviation) * this.adaptation;
+      band.meanRise += (rise - band.meanRise) * this.adaptation;
+    }
+
+    return hits;
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { PitchDetector } from './pitchDetector';
+import { SAMPLE_RATE, tones } from '@/test/signals';
+
+const detect = (hz: number) => new PitchDetector(SAMPLE_RATE).detect(Array.from(tones([hz], 0.1, 0.5)));
+
+describe('PitchDetector', () => {
+  it.each([80, 220, 440, 1000, 2000, 3500])('finds a %i Hz sine to within a few cents', hz => {
+    const pitch = detect(hz);
+
+    expect(Math.abs(1200 * Math.log2(pitch.frequency / hz))).toBeLessThan(5);
+    expect(pitch.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('names the note', () => {
+    expect(detect(440).note).toBe('A4');
+  });
+
+  it.each([5000, 10000])('reports a %i Hz sine, above the range, as unvoiced rather than a subharmonic', hz => {
+    expect(detect(hz).frequency).toBe(0);
+  });
+
+  it('reports silence as unvoiced', () => {
+    expect(new PitchDetector(SAMPLE_RATE).detect(new Array(4096).fill(0)).frequency).toBe(0);
+  });
+});
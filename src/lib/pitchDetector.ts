@@ -0,0 +1,129 @@
+/**
+ * Pitch Detector - Fundamental frequency of a single voice or lead instrument using YIN
+ * Works on the raw waveform, so it resolves pitch far more finely than the spectrum bins can
+ */
+
+import { PITCH_CLASSES } from './keyDetector';
+
+export interface PitchEstimate {
+  /** Fundamental frequency in Hz, 0 when the frame is unvoiced */
+  frequency: number;
+  /** Nearest equal-tempered note, e.g. "A4"; empty when unvoiced */
+  note: string;
+  /** Offset from that note in cents, -50 to 50 */
+  cents: number;
+  /** How periodic the frame is at the detected pitch, 0-1 */
+  confidence: number;
+}
+
+export const UNVOICED: PitchEstimate = { frequency: 0, note: '', cents: 0, confidence: 0 };
+
+/** Search range covering bass voices up to the top of a whistle; anything higher is reported unvoiced */
+const MIN_FREQUENCY = 60;
+const MAX_FREQUENCY = 4000;
+/** First dip of the normalized difference below this is taken as the period (YIN's absolute threshold) */
+const YIN_THRESHOLD = 0.15;
+/** Samples compared per lag; must cover the longest period */
+const INTEGRATION_WINDOW = 1024;
+/** Frames quieter than this RMS are treated as unvoiced without searching */
+const MIN_RMS = 0.01;
+/** Voicing below this confidence is reported as unvoiced */
+const MIN_CONFIDENCE = 0.5;
+
+/** Note name, cents offset and all, for a frequency in Hz */
+export const describePitch = (frequency: number, confidence: number): PitchEstimate => {
+  if (frequency <= 0) return UNVOICED;
+
+  const midi = 69 + 12 * Math.log2(frequency / 440);
+  const nearest = Math.round(midi);
+  const octave = Math.floor(nearest / 12) - 1;
+
+  return {
+    frequency,
+    note: `${PITCH_CLASSES[((nearest % 12) + 12) % 12]}${octave}`,
+    // "|| 0" keeps a dead-on note from reading as -0 cents
+    cents: Math.round((midi - nearest) * 100) || 0,
+    confidence
+  };
+};
+
+export class PitchDetector {
+  private readonly minLag: number;
+  private readonly maxLag: number;
+
+  constructor(private readonly sampleRate: number) {
+    this.minLag = Math.floor(sampleRate / MAX_FREQUENCY);
+    this.maxLag = Math.ceil(sampleRate / MIN_FREQUENCY);
+  }
+
+  detect(samples: number[]): PitchEstimate {
+    // Only the newest samples are needed: one integration window plus the longest period
+    const waveform = samples.slice(-(INTEGRATION_WINDOW + this.maxLag + 1));
+    const span = Math.min(INTEGRATION_WINDOW, waveform.length - this.maxLag - 1);
+    if (span < this.maxLag) return UNVOICED;
+
+    let power = 0;
+    for (let i = 0; i < span; i++) power += waveform[i] * waveform[i];
+    if (Math.sqrt(power / span) < MIN_RMS) return UNVOICED;
+
+    const normalized = this.normalizedDifference(waveform, span);
+    // A tone above the range repeats sooner than the shortest lag searched; its subharmonics are not its pitch
+    if (normalized.subarray(2, this.minLag).some(value => value < YIN_THRESHOLD)) return UNVOICED;
+
+    const lag = this.pickLag(normalized);
+    if (lag === 0) return UNVOICED;
+
+    const confidence = Math.max(0, Math.min(1, 1 - normalized[lag]));
+    if (confidence < MIN_CONFIDENCE) return UNVOICED;
+
+    return describePitch(this.sampleRate / this.refineLag(normalized, lag), confidence);
+  }
+
+  /** YIN's cumulative mean normalized difference: 0 where the signal repeats itself exactly */
+  private normalizedDifference(waveform: number[], span: number): Float32Array {
+    const result = new Float32Array(this.maxLag + 1);
+    result[0] = 1;
+
+    let runningSum = 0;
+    for (let lag = 1; lag <= this.maxLag; lag++) {
+      let difference = 0;
+      for (let i = 0; i < span; i++) {
+        const delta = waveform[i] - waveform[i + lag];
+        difference += delta * delta;
+      }
+
+      runningSum += difference;
+      result[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+    }
+
+    return result;
+  }
+
+  /** First lag under the threshold, followed down to its local minimum; otherwise the global minimum */
+  private pickLag(normalized: Float32Array): number {
+    for (let lag = this.minLag; lag <= this.maxLag; lag++) {
+      if (normalized[lag] < YIN_THRESHOLD) {
+        while (lag + 1 <= this.maxLag && normalized[lag + 1] < normalized[lag]) lag++;
+        return lag;
+      }
+    }
+
+    let best = 0;
+    for (let lag = this.minLag; lag <= this.maxLag; lag++) {
+      if (best === 0 || normalized[lag] < normalized[best]) best = lag;
+    }
+    return best;
+  }
+
+  private refineLag(normalized: Float32Array, lag: number): number {
+    if (lag <= 1 || lag >= this.maxLag) return lag;
+
+    // Parabolic interpolation through the minimum and its neighbours
+    const left = normalized[lag - 1];
+    const centre = normalized[lag];
+    const right = normalized[lag + 1];
+    const denominator = left - 2 * centre + right;
+
+    return denominator === 0 ? lag : lag + (0.5 * (left - right)) / denominator;
+  }
+}
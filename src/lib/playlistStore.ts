@@ -0,0 +1,79 @@
+/**
+ * Playlist Store - Persists the queue across reloads
+ * Track blobs live in IndexedDB, the lightweight queue metadata in localStorage
+ */
+
+import { requestStore, TRACK_STORE } from './database';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface TrackSettings {
+  mode: "sacred" | "cosmic" | "flow" | "pulse" | "trippy" | "ocean" | "neural" | "galaxy";
+  intensity: number;
+  sensitivity: number;
+}
+
+export interface PlaylistEntry {
+  id: string;
+  name: string;
+  duration: number | null;
+  settings: TrackSettings | null;
+}
+
+export interface PlaylistState {
+  entries: PlaylistEntry[];
+  currentId: string | null;
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+const METADATA_KEY = 'sacred-visualizer.playlist';
+
+export const EMPTY_PLAYLIST: PlaylistState = {
+  entries: [],
+  currentId: null,
+  shuffle: false,
+  repeat: 'off'
+};
+
+export class PlaylistStore {
+  loadMetadata(): PlaylistState {
+    try {
+      const raw = localStorage.getItem(METADATA_KEY);
+      if (!raw) return EMPTY_PLAYLIST;
+
+      const parsed = JSON.parse(raw) as Partial<PlaylistState>;
+      return {
+        entries: Array.isArray(parsed.entries) ? parsed.entries : [],
+        currentId: parsed.currentId ?? null,
+        shuffle: !!parsed.shuffle,
+        repeat: parsed.repeat === 'all' || parsed.repeat === 'one' ? parsed.repeat : 'off'
+      };
+    } catch {
+      return EMPTY_PLAYLIST;
+    }
+  }
+
+  saveMetadata(state: PlaylistState): void {
+    try {
+      localStorage.setItem(METADATA_KEY, JSON.stringify(state));
+    } catch {
+      // Storage can be full or disabled; the queue still works for this session
+    }
+  }
+
+  async putTrack(id: string, file: File): Promise<void> {
+    await requestStore(TRACK_STORE, 'readwrite', store => store.put(file, id));
+  }
+
+  async getTrack(id: string, name: string): Promise<File | null> {
+    const blob = await requestStore<Blob | undefined>(TRACK_STORE, 'readonly', store => store.get(id));
+    if (!blob) return null;
+
+    return blob instanceof File ? blob : new File([blob], name, { type: blob.type });
+  }
+
+  async deleteTrack(id: string): Promise<void> {
+    await requestStore(TRACK_STORE, 'readwrite', store => store.delete(id));
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { MusicBrain } from './musicBrain';
+import { concat, FFT_SIZE, HOP_SIZE, midiToHz, SAMPLE_RATE, spectra, tones, whiteNoise } from '@/test/signals';
+
+const SECTION_SECONDS = 20;
+
+/** Sections of a track as a pre-pass finds them */
+const sectionsOf = (samples: Float32Array) => {
+  const brain = new MusicBrain(SAMPLE_RATE, FFT_SIZE, HOP_SIZE);
+  for (const { spectrum } of spectra(samples)) brain.analyzeAudio(spectrum);
+  return brain.finishSections();
+};
+
+describe('SectionSegmenter', () => {
+  it('gives sections of the same material the same label', () => {
+    const chord = tones([48, 52, 55, 60].map(midiToHz), SECTION_SECONDS, 0.3);
+    const noise = whiteNoise(SECTION_SECONDS, 0.1);
+    const sections = sectionsOf(concat(chord, noise, chord));
+
+    expect(sections.map(section => section.label)).toEqual(['A', 'B', 'A']);
+    // Boundaries are found to within a block or two of a second
+    expect(sections[1].start).toBeCloseTo(SECTION_SECONDS, -0.5);
+    expect(sections[2].start).toBeCloseTo(2 * SECTION_SECONDS, -0.5);
+  }, 60000);
+
+  it('finds no boundary in unchanging material', () => {
+    expect(sectionsOf(whiteNoise(40, 0.1))).toHaveLength(1);
+  }, 60000);
+});
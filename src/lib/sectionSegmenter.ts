@@ -0,0 +1,243 @@
+/**
+ * Section Segmenter - Finds song section boundaries from novelty in energy, timbre and chroma
+ * Sections that sound alike share a letter label, and each gets a role such as verse or chorus
+ */
+
+import { timbreSimilarity } from './timbre';
+
+export type SectionKind = 'intro' | 'verse' | 'chorus' | 'drop' | 'outro';
+
+export const SECTION_KINDS: SectionKind[] = ['intro', 'verse', 'chorus', 'drop', 'outro'];
+
+export interface Section {
+  /** Position in the track, 0 for the first section */
+  index: number;
+  /** Letter shared by sections with the same material, 'A' for the first */
+  label: string;
+  kind: SectionKind;
+  /** Seconds from the start of the analysis */
+  start: number;
+}
+
+export interface SectionFrame {
+  /** Loudness of the input before any gain, in LUFS, so level riding cannot move a boundary */
+  loudness: number;
+  /** Frequency band levels 0-1, lowest band first; their shape stands in for timbre */
+  bands: number[];
+  /** Tonal amplitude per pitch class */
+  chroma: number[];
+  /** Mel-frequency cepstral coefficients, which tell sections of the same material apart by timbre */
+  mfcc: number[];
+}
+
+/** Frames are averaged into blocks of this many seconds before comparing */
+const BLOCK_SECONDS = 1;
+/** Blocks averaged either side of a candidate boundary when measuring novelty */
+const NOVELTY_HALF_WINDOW = 6;
+/** A boundary's novelty must be the highest within this many blocks either way */
+const PEAK_RADIUS = 3;
+/** Shortest section, in blocks; keeps fills and single loud bars from splitting a section */
+const MIN_SECTION_BLOCKS = 8;
+/** Novelty a boundary needs at least, however uneventful the track has been so far */
+const MIN_NOVELTY = 0.05;
+/** A boundary's novelty must also be this many times the track's typical novelty */
+const NOVELTY_OVER_MEDIAN = 2;
+/** Profile distance under which two sections count as the same material */
+const SAME_MATERIAL = 0.08;
+/** Loudness difference, in dB, that counts as much towards novelty as a complete change of timbre */
+const LOUDNESS_SCALE_DB = 30;
+/** Loudness rise over the previous section that, with more weight in the low end, marks a drop */
+const DROP_JUMP_DB = 6;
+/** A closing section this much quieter than the track average, in dB, is an outro */
+const OUTRO_DROP_DB = 3;
+
+const rmsDifference = (a: number[], b: number[]): number => {
+  const count = Math.max(a.length, b.length) || 1;
+  let sum = 0;
+  for (let i = 0; i < count; i++) sum += ((a[i] ?? 0) - (b[i] ?? 0)) ** 2;
+  return Math.sqrt(sum / count);
+};
+
+/** Band levels about their mean: the spectral shape, whatever the overall level */
+const shape = (bands: number[]): number[] => {
+  const mean = bands.reduce((sum, value) => sum + value, 0) / (bands.length || 1);
+  return bands.map(value => value - mean);
+};
+
+/** How different two stretches sound, giving loudness, timbre and harmony equal say */
+const distance = (a: SectionFrame, b: SectionFrame): number =>
+  (Math.abs(a.loudness - b.loudness) / LOUDNESS_SCALE_DB +
+    rmsDifference(shape(a.bands), shape(b.bands)) +
+    rmsDifference(a.chroma, b.chroma)) / 3;
+
+/**
+ * How different the material of two whole sections is. Timbre is judged on the MFCCs, which hear
+ * the same instruments as the same even where the band levels of a mix shift a little.
+ */
+const materialDistance = (a: SectionFrame, b: SectionFrame): number =>
+  (Math.abs(a.loudness - b.loudness) / LOUDNESS_SCALE_DB +
+    (1 - timbreSimilarity([a.mfcc], [b.mfcc])) +
+    rmsDifference(a.chroma, b.chroma)) / 3;
+
+const average = (frames: SectionFrame[]): SectionFrame => {
+  const count = frames.length || 1;
+  const sum = (values: number[][]) =>
+    (values[0] ?? []).map((_, i) => values.reduce((total, value) => total + (value[i] ?? 0), 0) / count);
+
+  return {
+    loudness: frames.reduce((total, frame) => total + frame.loudness, 0) / count,
+    bands: sum(frames.map(frame => frame.bands)),
+    chroma: sum(frames.map(frame => frame.chroma)),
+    mfcc: sum(frames.map(frame => frame.mfcc))
+  };
+};
+
+/** Share of band level in the two lowest bands */
+const lowShare = (profile: SectionFrame): number => {
+  const total = profile.bands.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? ((profile.bands[0] ?? 0) + (profile.bands[1] ?? 0)) / total : 0;
+};
+
+/** The section playing at a time in seconds, from a list ordered by start */
+export const sectionAt = (sections: Section[], time: number): Section => {
+  let current = sections[0];
+  for (const section of sections) {
+    if (section.start > time) break;
+    current = section;
+  }
+  return current;
+};
+
+export class SectionSegmenter {
+  private blocks: SectionFrame[] = [];
+  private pending: SectionFrame[] = [];
+  private novelty: number[] = [];
+  /** First block of each section found so far */
+  private starts: number[] = [0];
+  private found: Section[] = [{ index: 0, label: 'A', kind: 'intro', start: 0 }];
+  private readonly blockFrames: number;
+  private readonly blockDuration: number;
+
+  /**
+   * @param frameRate Analysis frames per second
+   */
+  constructor(frameRate: number) {
+    this.blockFrames = Math.max(1, Math.round(BLOCK_SECONDS * frameRate));
+    this.blockDuration = this.blockFrames / frameRate;
+  }
+
+  get current(): Section {
+    return this.found[this.found.length - 1];
+  }
+
+  get sections(): Section[] {
+    return this.found;
+  }
+
+  /**
+   * Adds one analysis frame; returns true on the frame a new section is recognised. Boundaries are
+   * confirmed only once enough of the new section has been heard, several seconds after it began.
+   */
+  addFrame(frame: SectionFrame): boolean {
+    this.pending.push(frame);
+    if (this.pending.length < this.blockFrames) return false;
+
+    this.blocks.push(average(this.pending));
+    this.pending = [];
+    return this.checkBoundary();
+  }
+
+  /**
+   * Treats the audio so far as the whole track: relabels every section with its complete profile
+   * and marks a quiet final section as the outro. For pre-passes over a file.
+   */
+  finish(): Section[] {
+    const profiles = this.profiles();
+    // In order, so each section is matched against already relabelled ones
+    this.found.forEach((section, index) => {
+      this.found[index] = { ...section, ...this.classify(index, profiles) };
+    });
+
+    const last = this.found.length - 1;
+    const meanLoudness = profiles.reduce((sum, profile) => sum + profile.loudness, 0) / profiles.length;
+    if (last > 0 && profiles[last].loudness < meanLoudness - OUTRO_DROP_DB) {
+      this.found[last] = { ...this.found[last], kind: 'outro' };
+    }
+
+    return this.found;
+  }
+
+  private checkBoundary(): boolean {
+    // Novelty at a block compares the windows before and after it, so it trails by half a window
+    const measured = this.blocks.length - NOVELTY_HALF_WINDOW;
+    if (measured < NOVELTY_HALF_WINDOW) return false;
+
+    this.novelty[measured] = distance(
+      average(this.blocks.slice(measured - NOVELTY_HALF_WINDOW, measured)),
+      average(this.blocks.slice(measured, measured + NOVELTY_HALF_WINDOW))
+    );
+
+    // A candidate is judged once the novelty after it is known too
+    const candidate = measured - PEAK_RADIUS;
+    if (candidate < NOVELTY_HALF_WINDOW) return false;
+    if (candidate - this.starts[this.starts.length - 1] < MIN_SECTION_BLOCKS) return false;
+
+    const score = this.novelty[candidate];
+    for (let block = candidate - PEAK_RADIUS; block <= measured; block++) {
+      if ((this.novelty[block] ?? 0) > score) return false;
+    }
+
+    // The median tracks how restless the track is in general without being pulled up by past boundaries;
+    // the candidate's own rise and fall, a window either side, is left out
+    const history = this.novelty
+      .filter((value, block) => value !== undefined && Math.abs(block - candidate) > NOVELTY_HALF_WINDOW)
+      .sort((a, b) => a - b);
+    const median = history.length > 0 ? history[Math.floor(history.length / 2)] : 0;
+    if (score < Math.max(MIN_NOVELTY, median * NOVELTY_OVER_MEDIAN)) return false;
+
+    this.starts.push(candidate);
+    const index = this.found.length;
+    this.found.push({
+      index,
+      start: candidate * this.blockDuration,
+      ...this.classify(index, this.profiles())
+    });
+    return true;
+  }
+
+  /** Average sound of each section; the open last section covers the blocks heard so far */
+  private profiles(): SectionFrame[] {
+    return this.starts.map((start, i) => average(this.blocks.slice(start, this.starts[i + 1] ?? this.blocks.length)));
+  }
+
+  /** Label from the closest earlier section of the same material, role from loudness and low end */
+  private classify(index: number, profiles: SectionFrame[]): Pick<Section, 'label' | 'kind'> {
+    if (index === 0) return { label: 'A', kind: 'intro' };
+
+    const profile = profiles[index];
+    let match = -1;
+    let closest = SAME_MATERIAL;
+    for (let earlier = 0; earlier < index; earlier++) {
+      const difference = materialDistance(profile, profiles[earlier]);
+      if (difference < closest) {
+        closest = difference;
+        match = earlier;
+      }
+    }
+
+    if (match >= 0) {
+      const kind = this.found[match].kind;
+      return { label: this.found[match].label, kind: kind === 'intro' || kind === 'outro' ? 'verse' : kind };
+    }
+
+    const labels = new Set(this.found.slice(0, index).map(section => section.label));
+    const label = String.fromCharCode(65 + labels.size);
+    const previous = profiles[index - 1];
+    const meanLoudness = profiles.slice(0, index + 1).reduce((sum, p) => sum + p.loudness, 0) / (index + 1);
+
+    if (profile.loudness - previous.loudness > DROP_JUMP_DB && lowShare(profile) > lowShare(previous)) {
+      return { label, kind: 'drop' };
+    }
+    return { label, kind: profile.loudness > meanLoudness ? 'chorus' : 'verse' };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Simulated Source - Mode-aware synthetic spectrum for demos and previews
+ * Needs no permissions or files, so it is what the landing page preview listens to
+ */
+
+import { AudioSource, DEFAULT_SAMPLE_RATE, StereoChannels } from './audioSource';
+
+type SimulatedMode = "sacred" | "cosmic" | "flow" | "pulse" | "trippy" | "ocean" | "neural" | "galaxy";
+
+/** The patterns below are drawn per bin, so the simulator keeps the small spectrum they were designed for */
+const SIMULATED_FFT_SIZE = 256;
+
+export class SimulatedSource implements AudioSource {
+  readonly kind = 'demo' as const;
+  readonly sampleRate = DEFAULT_SAMPLE_RATE;
+  readonly fftSize = SIMULATED_FFT_SIZE;
+
+  constructor(private mode: SimulatedMode = 'sacred') {}
+
+  setMode(mode: SimulatedMode): void {
+    this.mode = mode;
+  }
+
+  async start(): Promise<void> {}
+
+  stop(): void {}
+
+  dispose(): void {}
+
+  getFrequencyData(): number[] {
+    const time = Date.now() * 0.001;
+    const binCount = this.fftSize / 2;
+
+    // Generate more sophisticated audio simulation based on mode
+    return Array.from({ length: binCount }, (_, i) => {
+      const baseFreq = (i / binCount) * Math.PI * 2;
+      let amplitude = 0;
+
+      // Mode-specific audio generation
+      switch (this.mode) {
+        case 'sacred':
+          // Sacred geometry - harmonic frequencies
+          amplitude = Math.sin(time * 1.2 + baseFreq) * Math.sin(time * 0.3) * 0.7;
+          if (i % 12 === 0) amplitude *= 1.5; // Emphasize harmonic intervals
+          break;
+
+        case 'cosmic':
+          // Cosmic - spacey, ethereal sounds
+          amplitude = Math.sin(time * 0.8 + baseFreq * 1.5) * Math.cos(time * 0.2) * 0.6;
+          amplitude += Math.random() * 0.1; // Add some cosmic noise
+          break;
+
+        case 'flow':
+          // Flowing waves - smooth transitions
+          amplitude = Math.sin(time * 1.0 + baseFreq) * Math.sin(time * 0.4) * 0.5;
+          break;
+
+        case 'pulse':
+          // Rhythmic pulses
+          amplitude = Math.sin(time * 2.0 + baseFreq) * Math.sin(time * 0.6) * 0.8;
+          if (Math.floor(time * 2) % 2 === 0) amplitude *= 1.3; // Beat emphasis
+          break;
+
+        case 'trippy':
+          // Psychedelic patterns
+          amplitude = Math.sin(time * 1.7 + baseFreq * 3) * Math.cos(time * 0.7) * 0.9;
+          amplitude += Math.sin(time * 4 + i * 0.1) * 0.2;
+          break;
+
+        case 'ocean':
+          // Ocean-like waves
+          amplitude = Math.sin(time * 0.5 + baseFreq * 0.8) * Math.sin(time * 0.1) * 0.4;
+          amplitude += Math.sin(time * 0.3 + baseFreq * 2) * 0.2;
+          break;
+
+        case 'neural':
+          // Neural network patterns
+          amplitude = Math.sin(time * 1.5 + baseFreq * 2) * 0.6;
+          if (Math.random() > 0.9) amplitude *= 2; // Neural spikes
+          break;
+
+        case 'galaxy':
+          // Galactic, vast soundscapes
+          amplitude = Math.sin(time * 0.7 + baseFreq * 1.2) * Math.cos(time * 0.15) * 0.7;
+          amplitude += Math.sin(time * 3 + baseFreq * 0.5) * 0.3;
+          break;
+
+        default:
+          amplitude = Math.sin(time * 1 + baseFreq) * 0.5;
+      }
+
+      return Math.max(0, amplitude);
+    });
+  }
+
+  getTimeDomainData(): number[] {
+    // Resynthesize a waveform from the simulated spectrum, one sinusoid per bin
+    const spectrum = this.getFrequencyData();
+    const samples = new Array<number>(this.fftSize).fill(0);
+    let peak = 0;
+
+    for (let n = 0; n < this.fftSize; n++) {
+      for (let k = 1; k < spectrum.length; k++) {
+        if (spectrum[k] === 0) continue;
+        samples[n] += spectrum[k] * Math.sin((2 * Math.PI * k * n) / this.fftSize + k);
+      }
+      peak = Math.max(peak, Math.abs(samples[n]));
+    }
+
+    return peak > 1 ? samples.map(sample => sample / peak) : samples;
+  }
+
+  getStereoTimeDomainData(): StereoChannels | null {
+    return null;
+  }
+}
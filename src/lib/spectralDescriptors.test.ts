@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { applyGain, SpectralDescriptors, summarizeSpectrum, toAmplitude, toLevel } from './spectralDescriptors';
+import { clickTrack, FFT_SIZE, SAMPLE_RATE, spectra, tones } from '@/test/signals';
+
+const BIN_WIDTH = SAMPLE_RATE / FFT_SIZE;
+
+/** Descriptors of the last frame of a sound */
+const descriptorsOf = (samples: Float32Array, frame = -1): SpectralDescriptors => {
+  const frames = spectra(samples);
+  return summarizeSpectrum(frames.at(frame)!.spectrum, null, BIN_WIDTH).summary.descriptors;
+};
+
+describe('summarizeSpectrum', () => {
+  it.each([200, 1000, 3000])('puts the centroid of a pure %i Hz tone on the tone', hz => {
+    expect(descriptorsOf(tones([hz], 1, 0.5)).centroid).toBeCloseTo(hz, -1);
+  });
+
+  it('keeps the centroid of a quiet tone on the tone', () => {
+    expect(descriptorsOf(tones([1000], 1, 0.05)).centroid).toBeCloseTo(1000, -1);
+  });
+
+  it('puts the centroid between two equal tones', () => {
+    // Within a few percent, as each tone leaks into the bins around it
+    expect(Math.abs(descriptorsOf(tones([1000, 3000], 1, 0.5)).centroid - 2000)).toBeLessThan(50);
+  });
+
+  it('reads a tone as peaky and noise as flat', () => {
+    const tone = descriptorsOf(tones([1000], 1, 0.5));
+    // The second hop lies inside the first click's burst of noise
+    const noise = descriptorsOf(clickTrack(60, 1, 0, 0.8), 1);
+
+    expect(tone.crest).toBeGreaterThan(100 * noise.crest);
+    expect(noise.flatness).toBeGreaterThan(tone.flatness + 0.5);
+    expect(noise.centroid).toBeGreaterThan(5000);
+  });
+
+  it('describes silence as empty rather than as white noise', () => {
+    expect(descriptorsOf(new Float32Array(SAMPLE_RATE))).toEqual({ centroid: 0, rolloff: 0, flatness: 0, flux: 0, crest: 1 });
+  });
+});
+
+describe('level conversions', () => {
+  it('maps levels to amplitudes and back', () => {
+    for (const level of [0.1, 0.5, 0.9]) expect(toLevel(toAmplitude(level))).toBeCloseTo(level, 6);
+  });
+
+  it('shifts levels by a gain in dB and leaves the floor alone', () => {
+    // The analyser spans 70 dB, so 7 dB is a tenth of the range
+    expect(applyGain([0, 0.5, 0.95], 7)).toEqual([0, expect.closeTo(0.6, 6), 1]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Spectral Descriptors - Standard per-frame measures of spectral shape
+ * Computed together in one pass over the spectrum so every feature built on them shares the same numbers
+ */
+
+export interface SpectralDescriptors {
+  /** Magnitude-weighted mean frequency in Hz; higher means brighter */
+  centroid: number;
+  /** Frequency in Hz below which 85% of the spectral energy lies */
+  rolloff: number;
+  /** Geometric over arithmetic mean of magnitudes: near 0 for a pure tone, 1 for white noise */
+  flatness: number;
+  /** Share of this frame's magnitude that is new since the previous frame, 0-1 */
+  flux: number;
+  /** Peak magnitude over mean magnitude; large for a few sharp peaks, 1 for a flat spectrum */
+  crest: number;
+}
+
+export interface SpectrumSummary {
+  descriptors: SpectralDescriptors;
+  /** Root mean square of the analyser's 0-1 levels */
+  rms: number;
+  /** Standard deviation of the analyser's 0-1 levels */
+  deviation: number;
+}
+
+/** Decibel range the analyser maps onto 0-1 (AnalyserNode minDecibels and maxDecibels defaults) */
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+const ROLLOFF_SHARE = 0.85;
+
+/**
+ * Undoes the analyser's decibel scaling, returning linear magnitude. Level 0 means "at or below
+ * minDecibels", so it maps to that floor rather than to true silence.
+ */
+export const toAmplitude = (level: number): number =>
+  10 ** ((MIN_DECIBELS + Math.max(0, Math.min(1, level)) * (MAX_DECIBELS - MIN_DECIBELS)) / 20);
+
+/** Analyser level 0-1 of a linear magnitude; the inverse of toAmplitude */
+export const toLevel = (amplitude: number): number =>
+  amplitude > 0
+    ? Math.max(0, Math.min(1, (20 * Math.log10(amplitude) - MIN_DECIBELS) / (MAX_DECIBELS - MIN_DECIBELS)))
+    : 0;
+
+/**
+ * Raises or lowers analyser levels by a gain in dB. The levels are decibel-scaled, so a gain is a
+ * shift; bins at the floor stay there, since nothing was measured in them to amplify.
+ */
+export const applyGain = (spectrum: number[], gainDb: number): number[] => {
+  const shift = gainDb / (MAX_DECIBELS - MIN_DECIBELS);
+  return spectrum.map(level => (level > 0 ? Math.max(0, Math.min(1, level + shift)) : 0));
+};
+
+/** Magnitude of a bin at the analyser's floor, where nothing was measured */
+const FLOOR_AMPLITUDE = toAmplitude(0);
+
+export const EMPTY_DESCRIPTORS: SpectralDescriptors = { centroid: 0, rolloff: 0, flatness: 0, flux: 0, crest: 1 };
+
+/**
+ * Describes one analyser frame. Shape descriptors use linear magnitudes, as their textbook
+ * definitions do; the level statistics stay on the analyser's decibel-scaled 0-1 levels.
+ * @param spectrum Analyser levels 0-1, bin k centred on k * binWidth Hz
+ * @param previous Linear magnitudes of the previous frame, for flux; pass null on the first frame
+ * @returns The summary, plus this frame's magnitudes to pass back as `previous` next time
+ */
+export const summarizeSpectrum = (
+  spectrum: number[],
+  previous: number[] | null,
+  binWidth: number
+): { summary: SpectrumSummary; magnitudes: number[] } => {
+  const count = spectrum.length;
+  const magnitudes = new Array<number>(count);
+
+  let levelSum = 0;
+  let levelSquares = 0;
+  let magnitudeSum = 0;
+  let aboveFloor = 0;
+  let weightedFrequency = 0;
+  let energy = 0;
+  let logSum = 0;
+  let peak = 0;
+  let rise = 0;
+
+  for (let bin = 0; bin < count; bin++) {
+    const level = spectrum[bin];
+    const magnitude = toAmplitude(level);
+    magnitudes[bin] = magnitude;
+
+    levelSum += level;
+    levelSquares += level * level;
+    magnitudeSum += magnitude;
+    // The centroid weighs only what rises above the floor; a floor spread over every bin would drag it towards the middle
+    aboveFloor += magnitude - FLOOR_AMPLITUDE;
+    weightedFrequency += (magnitude - FLOOR_AMPLITUDE) * bin * binWidth;
+    energy += magnitude * magnitude;
+    logSum += Math.log(magnitude);
+    peak = Math.max(peak, magnitude);
+    if (previous && magnitude > previous[bin]) rise += magnitude - previous[bin];
+  }
+
+  // Nothing above the analyser's floor: a flat floor is silence, not white noise
+  if (levelSum === 0) {
+    return { summary: { descriptors: EMPTY_DESCRIPTORS, rms: 0, deviation: 0 }, magnitudes };
+  }
+
+  // Walk up the spectrum until the rolloff share of the energy is behind us
+  let rolloffBin = 0;
+  for (let cumulative = 0; rolloffBin < count; rolloffBin++) {
+    cumulative += magnitudes[rolloffBin] * magnitudes[rolloffBin];
+    if (cumulative >= energy * ROLLOFF_SHARE) break;
+  }
+
+  const mean = levelSum / count;
+  const meanMagnitude = magnitudeSum / count;
+
+  return {
+    summary: {
+      descriptors: {
+        centroid: aboveFloor > 0 ? weightedFrequency / aboveFloor : 0,
+        rolloff: energy > 0 ? Math.min(rolloffBin, count - 1) * binWidth : 0,
+        flatness: meanMagnitude > 0 ? Math.min(1, Math.exp(logSum / count) / meanMagnitude) : 0,
+        flux: magnitudeSum > 0 ? Math.min(1, rise / magnitudeSum) : 0,
+        crest: meanMagnitude > 0 ? peak / meanMagnitude : 1
+      },
+      rms: Math.sqrt(levelSquares / count),
+      deviation: Math.sqrt(Math.max(0, levelSquares / count - mean * mean))
+    },
+    magnitudes
+  };
+};
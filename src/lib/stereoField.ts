@@ -0,0 +1,154 @@
+/**
+ * Stereo Field - Width, balance and per-band panning from the left and right channels
+ * Sources without a stereo image, and mono inputs copied to both sides, read as a centred mono field
+ */
+
+import { StereoChannels } from './audioSource';
+import { FREQUENCY_BANDS, FrequencyBands } from './musicBrain';
+import { fft } from './offlineAnalyser';
+
+export interface StereoField {
+  /** Side level over mid level: 0 for mono, 1 once the sides are as loud as the centre */
+  width: number;
+  /** -1 hard left to 1 hard right, by level */
+  balance: number;
+  /** Correlation of the channels: 1 for mono, 0 for unrelated, -1 for out of phase */
+  correlation: number;
+  /** Where each frequency band sits, -1 left to 1 right */
+  panning: FrequencyBands;
+}
+
+const CENTRED: FrequencyBands = {
+  subBass: 0,
+  bass: 0,
+  lowMid: 0,
+  mid: 0,
+  highMid: 0,
+  presence: 0,
+  brilliance: 0
+};
+
+export const MONO_FIELD: StereoField = { width: 0, balance: 0, correlation: 1, panning: CENTRED };
+
+/** Seconds the field is smoothed over, so panning reads as a position rather than per-frame jitter */
+const SMOOTHING_SECONDS = 0.25;
+/** Band amplitude below which a band counts as silent and centred: the analyser's -100 dB floor */
+const SILENT_AMPLITUDE = 1e-5;
+
+const clamp = (value: number, low: number, high: number) => Math.max(low, Math.min(high, value));
+
+/**
+ * Band panning comes from the channel waveforms rather than the analyser's byte spectra: those clip
+ * at the analyser's top level, where a loud band reads the same on both sides wherever it is panned.
+ */
+export class StereoAnalyser {
+  private field: StereoField = MONO_FIELD;
+  /** First and last bin of each band */
+  private readonly bandBins: Record<keyof FrequencyBands, [number, number]>;
+  private readonly window: Float64Array;
+  private readonly smoothing: number;
+
+  /**
+   * @param sampleRate Sample rate of the analysed signal in Hz
+   * @param fftSize Power-of-two length of the channel waveforms
+   * @param frameRate Analysis frames per second
+   */
+  constructor(sampleRate: number, private readonly fftSize: number, frameRate: number) {
+    const binWidth = sampleRate / fftSize;
+    const lastBin = fftSize / 2 - 1;
+
+    this.bandBins = {} as Record<keyof FrequencyBands, [number, number]>;
+    for (const band of Object.keys(FREQUENCY_BANDS) as (keyof FrequencyBands)[]) {
+      const [lowHz, highHz] = FREQUENCY_BANDS[band];
+      const first = Math.min(lastBin, Math.ceil(lowHz / binWidth));
+      const last = Math.min(lastBin, Math.floor(highHz / binWidth));
+      // A band narrower than a bin reads the bin nearest its centre
+      const nearest = Math.min(lastBin, Math.round((lowHz + highHz) / 2 / binWidth));
+      this.bandBins[band] = last >= first ? [first, last] : [nearest, nearest];
+    }
+    this.window = Float64Array.from({ length: fftSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / fftSize));
+    this.smoothing = Math.min(1, 1 / (SMOOTHING_SECONDS * frameRate));
+  }
+
+  /**
+   * @param channels Both channel waveforms of this frame, or null when the source has no stereo image
+   */
+  update(channels: StereoChannels | null): StereoField {
+    if (!channels) {
+      this.field = MONO_FIELD;
+      return this.field;
+    }
+
+    const measured = this.measure(channels);
+    const ease = (from: number, to: number) => from + (to - from) * this.smoothing;
+    const panning = {} as FrequencyBands;
+    for (const band of Object.keys(measured.panning) as (keyof FrequencyBands)[]) {
+      panning[band] = ease(this.field.panning[band], measured.panning[band]);
+    }
+
+    this.field = {
+      width: ease(this.field.width, measured.width),
+      balance: ease(this.field.balance, measured.balance),
+      correlation: ease(this.field.correlation, measured.correlation),
+      panning
+    };
+    return this.field;
+  }
+
+  private measure({ left, right }: StereoChannels): StereoField {
+    const count = Math.min(left.length, right.length);
+
+    let leftPower = 0;
+    let rightPower = 0;
+    let product = 0;
+    let midPower = 0;
+    let sidePower = 0;
+    for (let i = 0; i < count; i++) {
+      leftPower += left[i] * left[i];
+      rightPower += right[i] * right[i];
+      product += left[i] * right[i];
+      midPower += ((left[i] + right[i]) / 2) ** 2;
+      sidePower += ((left[i] - right[i]) / 2) ** 2;
+    }
+
+    const leftLevel = Math.sqrt(leftPower);
+    const rightLevel = Math.sqrt(rightPower);
+    const width = midPower > 0 ? Math.sqrt(sidePower / midPower) : sidePower > 0 ? 1 : 0;
+
+    const leftPowers = this.powerSpectrum(left);
+    const rightPowers = this.powerSpectrum(right);
+    const panning = {} as FrequencyBands;
+    for (const band of Object.keys(this.bandBins) as (keyof FrequencyBands)[]) {
+      const [first, last] = this.bandBins[band];
+      let leftBand = 0;
+      let rightBand = 0;
+      for (let bin = first; bin <= last; bin++) {
+        leftBand += leftPowers[bin];
+        rightBand += rightPowers[bin];
+      }
+      const leftAmplitude = Math.sqrt(leftBand) / this.fftSize;
+      const rightAmplitude = Math.sqrt(rightBand) / this.fftSize;
+      const total = leftAmplitude + rightAmplitude;
+      panning[band] = total > SILENT_AMPLITUDE ? (rightAmplitude - leftAmplitude) / total : 0;
+    }
+
+    return {
+      width: clamp(width, 0, 1),
+      balance: leftLevel + rightLevel > 0 ? (rightLevel - leftLevel) / (rightLevel + leftLevel) : 0,
+      // Silence has nothing to tell the sides apart by, so it counts as mono
+      correlation: leftPower > 0 && rightPower > 0 ? clamp(product / Math.sqrt(leftPower * rightPower), -1, 1) : 1,
+      panning
+    };
+  }
+
+  /** Power per bin of one windowed channel */
+  private powerSpectrum(samples: number[]): Float64Array {
+    const real = new Float64Array(this.fftSize);
+    const imag = new Float64Array(this.fftSize);
+    const offset = samples.length - this.fftSize;
+    for (let i = 0; i < this.fftSize; i++) real[i] = (samples[offset + i] ?? 0) * this.window[i];
+    fft(real, imag);
+
+    return Float64Array.from({ length: this.fftSize / 2 }, (_, bin) => real[bin] ** 2 + imag[bin] ** 2);
+  }
+}
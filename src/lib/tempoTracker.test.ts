@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { TempoTracker } from './tempoTracker';
+import { clickTrack, FRAME_RATE, mix, spectra } from '@/test/signals';
+
+/** Tempo reported after listening to a whole track */
+const tempoOf = (samples: Float32Array) => {
+  const tracker = new TempoTracker(FRAME_RATE);
+  for (const { spectrum } of spectra(samples)) tracker.addFrame(spectrum);
+  return tracker.tempo;
+};
+
+describe('TempoTracker', () => {
+  it.each([70, 120, 174])('reads a %i BPM click track within half a BPM', bpm => {
+    const { bpm: detected, confidence } = tempoOf(clickTrack(bpm, 12));
+
+    expect(detected).toBeGreaterThan(bpm - 0.5);
+    expect(detected).toBeLessThan(bpm + 0.5);
+    expect(confidence).toBeGreaterThan(0.5);
+  });
+
+  it('does not halve tempos near the top of the range', () => {
+    expect(tempoOf(clickTrack(178, 12)).bpm).toBeGreaterThan(177);
+  });
+
+  it('keeps the slower tempo when the beats between are clearly quieter', () => {
+    const bpm = 87;
+    const offbeats = clickTrack(bpm, 12, 30 / bpm, 0.2);
+
+    expect(Math.abs(tempoOf(mix(clickTrack(bpm, 12), offbeats)).bpm - bpm)).toBeLessThan(0.5);
+  });
+
+  it('holds a corrected tempo against detection', () => {
+    const tracker = new TempoTracker(FRAME_RATE);
+    tracker.correct(90);
+    for (const { spectrum } of spectra(clickTrack(120, 5))) tracker.addFrame(spectrum);
+
+    expect(tracker.tempo.bpm).toBe(90);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Tempo Tracker - Estimates BPM from a spectral-flux onset envelope
+ * Autocorrelates the recent envelope, reinforces candidates with their multiples,
+ * and leans on a perceptual prior around 120 BPM to settle octave ambiguities
+ */
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number;
+}
+
+const DEFAULT_BPM = 120;
+/** Log-compression gain applied to magnitudes before differencing */
+const FLUX_COMPRESSION = 100;
+/** Width of the tempo prior, in octaves either side of the centre */
+const PRIOR_OCTAVE_WIDTH = 1;
+/** Spreads each onset over neighbouring frames before autocorrelating */
+const SMOOTHING_KERNEL = [0.1, 0.2, 0.4, 0.2, 0.1];
+/** Spacing of the lags scored, in frames */
+const LAG_STEP = 0.25;
+/** Share of the on-beat autocorrelation the half period needs before the faster tempo is taken */
+const SUBDIVISION_RATIO = 0.95;
+/** Below this confidence a new estimate is not trusted over the current one */
+const MIN_CONFIDENCE = 0.25;
+/** How long a tempo set by hand is kept before detection may replace it */
+const CORRECTION_HOLD_SECONDS = 10;
+
+export class TempoTracker {
+  private previousSpectrum: number[] | null = null;
+  private onsetEnvelope: number[] = [];
+  private framesSinceEstimate = 0;
+  private holdFrames = 0;
+  private estimate: TempoEstimate = { bpm: DEFAULT_BPM, confidence: 0 };
+
+  private readonly windowFrames: number;
+  private readonly minFrames: number;
+  private readonly estimateEvery: number;
+
+  /**
+   * @param frameRate Onset frames per second, i.e. sample rate divided by hop size
+   * @param windowSeconds Length of onset history the autocorrelation looks at
+   */
+  constructor(
+    private readonly frameRate: number,
+    private readonly minBpm = 60,
+    private readonly maxBpm = 180,
+    windowSeconds = 8
+  ) {
+    this.windowFrames = Math.round(windowSeconds * frameRate);
+    this.minFrames = Math.round(3 * frameRate);
+    this.estimateEvery = Math.max(1, Math.round(frameRate / 4));
+  }
+
+  get tempo(): TempoEstimate {
+    return this.estimate;
+  }
+
+  /** The most recent onset strengths, oldest first */
+  get envelope(): readonly number[] {
+    return this.onsetEnvelope;
+  }
+
+  /** Adds one spectrum frame and returns its onset strength (half-wave rectified spectral flux) */
+  addFrame(spectrum: number[]): number {
+    const flux = this.spectralFlux(spectrum);
+    this.previousSpectrum = spectrum;
+
+    this.onsetEnvelope.push(flux);
+    if (this.onsetEnvelope.length > this.windowFrames) this.onsetEnvelope.shift();
+
+    this.framesSinceEstimate += 1;
+    this.holdFrames = Math.max(0, this.holdFrames - 1);
+    if (this.holdFrames === 0 && this.framesSinceEstimate >= this.estimateEvery && this.onsetEnvelope.length >= this.minFrames) {
+      this.framesSinceEstimate = 0;
+      this.updateEstimate();
+    }
+
+    return flux;
+  }
+
+  /**
+   * Replaces the estimate with a known tempo, e.g. from tap tempo. Detection resumes after a short
+   * hold, and because the correction carries full confidence, detection cannot flip its octave.
+   */
+  correct(bpm: number): void {
+    this.estimate = { bpm: Math.min(this.maxBpm, Math.max(this.minBpm, bpm)), confidence: 1 };
+    this.holdFrames = Math.round(CORRECTION_HOLD_SECONDS * this.frameRate);
+  }
+
+  private spectralFlux(spectrum: number[]): number {
+    const previous = this.previousSpectrum;
+    if (!previous || previous.length !== spectrum.length || spectrum.length === 0) return 0;
+
+    let flux = 0;
+    for (let i = 0; i < spectrum.length; i++) {
+      const rise = Math.log1p(FLUX_COMPRESSION * spectrum[i]) - Math.log1p(FLUX_COMPRESSION * previous[i]);
+      if (rise > 0) flux += rise;
+    }
+
+    return flux / spectrum.length;
+  }
+
+  private updateEstimate(): void {
+    const detrended = this.detrend(this.onsetEnvelope);
+    const minLag = (60 * this.frameRate) / this.maxBpm;
+    const maxLag = (60 * this.frameRate) / this.minBpm;
+    const autocorrelation = this.autocorrelate(detrended, Math.ceil(maxLag * 3) + 1);
+    if (autocorrelation[0] <= 0) return;
+
+    // Score lags in range on a grid finer than a frame, so that periods between whole frames are
+    // not read at their half-time multiple: the period itself plus its multiples, times the prior
+    const scores: number[] = [];
+    let best = -1;
+
+    for (let i = 0; minLag + i * LAG_STEP <= maxLag; i++) {
+      const lag = minLag + i * LAG_STEP;
+      scores[i] = this.combScore(autocorrelation, lag) * this.tempoPrior(lag);
+      if (best < 0 || scores[i] > scores[best]) best = i;
+    }
+    if (best < 0 || scores[best] <= 0) return;
+
+    let lag = minLag + (best + this.peakOffset(scores, best)) * LAG_STEP;
+
+    // Pulses half way between as strong as those on the beat mean the slower reading skips every other beat
+    if (lag / 2 >= minLag && this.sampleAt(autocorrelation, lag / 2) >= SUBDIVISION_RATIO * this.sampleAt(autocorrelation, lag)) {
+      lag /= 2;
+    }
+
+    lag = this.refineLag(autocorrelation, lag);
+    const bpm = Math.min(this.maxBpm, Math.max(this.minBpm, (60 * this.frameRate) / lag));
+    const confidence = Math.max(0, Math.min(1, this.sampleAt(autocorrelation, lag) / autocorrelation[0]));
+
+    this.accept({ bpm, confidence });
+  }
+
+  /** Keeps the reported tempo stable: weak estimates and plain octave flips do not replace a solid one */
+  private accept(candidate: TempoEstimate): void {
+    const current = this.estimate;
+
+    if (candidate.confidence < MIN_CONFIDENCE) {
+      this.estimate = { bpm: current.bpm, confidence: current.confidence * 0.9 };
+      return;
+    }
+
+    const ratio = candidate.bpm / current.bpm;
+    const isOctaveFlip = Math.abs(ratio - 2) < 0.08 || Math.abs(ratio - 0.5) < 0.04;
+    if (current.confidence > 0 && isOctaveFlip && candidate.confidence < current.confidence * 1.5) {
+      this.estimate = { bpm: current.bpm, confidence: Math.max(current.confidence * 0.95, candidate.confidence) };
+      return;
+    }
+
+    // Close to the current tempo: glide towards it instead of jumping
+    const blend = Math.abs(ratio - 1) < 0.04 ? 0.3 : 1;
+    this.estimate = {
+      bpm: current.bpm + (candidate.bpm - current.bpm) * blend,
+      confidence: current.confidence + (candidate.confidence - current.confidence) * 0.5
+    };
+  }
+
+  private detrend(envelope: number[]): number[] {
+    // Subtract a local mean so that slow loudness changes do not masquerade as periodicity
+    const radius = Math.max(1, Math.round(this.frameRate / 4));
+    const rectified = new Array<number>(envelope.length);
+
+    for (let i = 0; i < envelope.length; i++) {
+      const start = Math.max(0, i - radius);
+      const end = Math.min(envelope.length, i + radius + 1);
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += envelope[j];
+      rectified[i] = Math.max(0, envelope[i] - sum / (end - start));
+    }
+
+    // Widen single-frame onsets so periods that fall between whole frames still line up
+    return rectified.map((_, i) => SMOOTHING_KERNEL.reduce((sum, weight, k) => {
+      const j = i + k - (SMOOTHING_KERNEL.length >> 1);
+      return j >= 0 && j < rectified.length ? sum + rectified[j] * weight : sum;
+    }, 0));
+  }
+
+  private autocorrelate(signal: number[], maxLag: number): number[] {
+    const lags = Math.min(maxLag, signal.length - 1);
+    const result = new Array<number>(lags + 1).fill(0);
+
+    for (let lag = 0; lag <= lags; lag++) {
+      let sum = 0;
+      for (let i = 0; i + lag < signal.length; i++) sum += signal[i] * signal[i + lag];
+      // Unbiased: longer lags overlap fewer samples
+      result[lag] = sum / (signal.length - lag);
+    }
+
+    return result;
+  }
+
+  private combScore(autocorrelation: number[], lag: number): number {
+    return this.sampleAt(autocorrelation, lag) +
+      0.5 * this.sampleAt(autocorrelation, lag * 2) +
+      0.33 * this.sampleAt(autocorrelation, lag * 3);
+  }
+
+  private tempoPrior(lag: number): number {
+    const bpm = (60 * this.frameRate) / lag;
+    const octaves = Math.log2(bpm / DEFAULT_BPM) / PRIOR_OCTAVE_WIDTH;
+    return Math.exp(-0.5 * octaves * octaves);
+  }
+
+  /**
+   * Measures the period again at each of its multiples the autocorrelation reaches. A peak found k
+   * periods out pins the period k times as finely as the first one does.
+   */
+  private refineLag(autocorrelation: number[], lag: number): number {
+    let refined = lag;
+
+    for (let periods = 2; refined * periods + 1 < autocorrelation.length - 1; periods++) {
+      let peak = Math.round(refined * periods);
+      for (const neighbour of [peak - 1, peak + 1]) {
+        if (autocorrelation[neighbour] > autocorrelation[peak]) peak = neighbour;
+      }
+      refined = (peak + this.peakOffset(autocorrelation, peak)) / periods;
+    }
+
+    return refined;
+  }
+
+  /** Where the true peak lies relative to index, from a parabola through it and its neighbours */
+  private peakOffset(values: number[], index: number): number {
+    const left = values[index - 1];
+    const right = values[index + 1];
+    if (left === undefined || right === undefined) return 0;
+
+    const denominator = left - 2 * values[index] + right;
+    if (denominator === 0) return 0;
+
+    return Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denominator));
+  }
+
+  private sampleAt(values: number[], position: number): number {
+    const index = Math.floor(position);
+    if (index >= values.length - 1) return values[values.length - 1] ?? 0;
+
+    const fraction = position - index;
+    return values[index] * (1 - fraction) + values[index + 1] * fraction;
+  }
+}
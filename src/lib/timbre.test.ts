@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { MEL_BAND_COUNT, MelFilterbank, MFCC_COUNT, timbreFingerprint, timbreSimilarity } from './timbre';
+import { summarizeSpectrum } from './spectralDescriptors';
+import { FFT_SIZE, SAMPLE_RATE, spectra, tones, whiteNoise } from '@/test/signals';
+
+/** Mel levels and MFCCs of every frame of a sound, as the Music Brain computes them */
+const timbreFrames = (samples: Float32Array) => {
+  const filterbank = new MelFilterbank(SAMPLE_RATE, FFT_SIZE);
+  // The analyser's smoothing takes over half a second to forget the click of the sound starting
+  return spectra(samples).slice(30).map(({ spectrum }) => {
+    const { magnitudes } = summarizeSpectrum(spectrum, null, SAMPLE_RATE / FFT_SIZE);
+    return filterbank.analyse(magnitudes);
+  });
+};
+
+const mfccsOf = (samples: Float32Array): number[][] => timbreFrames(samples).map(frame => frame.mfcc);
+
+describe('MelFilterbank', () => {
+  it('gives one level per mel band and one value per coefficient', () => {
+    const [frame] = timbreFrames(tones([440], 1));
+
+    expect(frame.mel).toHaveLength(MEL_BAND_COUNT);
+    expect(frame.mfcc).toHaveLength(MFCC_COUNT);
+  });
+
+  it('lights higher mel bands for higher tones', () => {
+    const loudestBand = (hz: number) => {
+      const { mel } = timbreFrames(tones([hz], 1, 0.5))[0];
+      return mel.indexOf(Math.max(...mel));
+    };
+
+    expect(loudestBand(100)).toBeLessThan(loudestBand(1000));
+    expect(loudestBand(1000)).toBeLessThan(loudestBand(8000));
+  });
+
+  it('follows overall level in the first coefficient only', () => {
+    const loud = timbreFrames(whiteNoise(1, 0.5))[0].mfcc;
+    const quiet = timbreFrames(whiteNoise(1, 0.05))[0].mfcc;
+
+    expect(loud[0]).toBeGreaterThan(quiet[0]);
+    const quietFingerprint = timbreFingerprint([quiet]);
+    const differences = timbreFingerprint([loud]).map((value, k) => Math.abs(value - quietFingerprint[k]));
+    expect(Math.max(...differences)).toBeLessThan(0.05);
+  });
+});
+
+describe('timbreSimilarity', () => {
+  it('finds two windows of the same sine alike', () => {
+    const sine = mfccsOf(tones([440], 3, 0.5));
+
+    expect(timbreSimilarity(sine.slice(0, 20), sine.slice(40, 60))).toBeGreaterThan(0.99);
+  });
+
+  it('tells a sine from white noise', () => {
+    const sine = mfccsOf(tones([440], 1, 0.5));
+    const noise = mfccsOf(whiteNoise(1));
+
+    expect(timbreSimilarity(sine, noise)).toBeLessThan(0.5);
+  });
+
+  it('finds the same noise alike whatever its level', () => {
+    expect(timbreSimilarity(mfccsOf(whiteNoise(1, 0.5)), mfccsOf(whiteNoise(1, 0.1)))).toBeGreaterThan(0.9);
+  });
+
+  it('has nothing to compare in an empty window', () => {
+    expect(timbreSimilarity([], mfccsOf(whiteNoise(1)))).toBe(0);
+  });
+});
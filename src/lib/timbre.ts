@@ -0,0 +1,109 @@
+/**
+ * Timbre - Mel-band levels and MFCCs per frame, and a similarity measure between stretches of audio
+ * Mel bands space frequency the way pitch is heard; their cepstrum condenses the spectral envelope into a few numbers
+ */
+
+import { toLevel } from './spectralDescriptors';
+
+export const MEL_BAND_COUNT = 26;
+export const MFCC_COUNT = 13;
+
+export interface TimbreFrame {
+  /** Mean level 0-1 in each mel band, lowest first, on the analyser's decibel scale */
+  mel: number[];
+  /** Mel-frequency cepstral coefficients; the first follows overall level, the rest the spectral envelope */
+  mfcc: number[];
+}
+
+/** Frequency range the mel bands cover, in Hz; above this the analyser rarely reads anything but its floor */
+const LOWEST_HZ = 30;
+const HIGHEST_HZ = 16000;
+/** Fingerprint distance at which similarity has fallen to 1/e; about that of a pure tone to a sawtooth */
+const SIMILARITY_SCALE = 1;
+
+const toMel = (hz: number): number => 2595 * Math.log10(1 + hz / 700);
+const fromMel = (mel: number): number => 700 * (10 ** (mel / 2595) - 1);
+
+/** Orthonormal DCT-II rows, one per coefficient */
+const DCT = Array.from({ length: MFCC_COUNT }, (_, k) =>
+  Array.from(
+    { length: MEL_BAND_COUNT },
+    (_, n) => Math.sqrt((k === 0 ? 1 : 2) / MEL_BAND_COUNT) * Math.cos((Math.PI * k * (n + 0.5)) / MEL_BAND_COUNT)
+  )
+);
+
+/** Mean MFCCs of a stretch of frames, leaving out the level coefficient so loudness does not count as timbre */
+export const timbreFingerprint = (mfccs: number[][]): number[] => {
+  const fingerprint = new Array(MFCC_COUNT - 1).fill(0);
+  for (const frame of mfccs) {
+    for (let k = 1; k < MFCC_COUNT; k++) fingerprint[k - 1] += (frame[k] ?? 0) / mfccs.length;
+  }
+  return fingerprint;
+};
+
+/**
+ * How alike two stretches of audio sound, from 1 for the same spectral envelope towards 0 as their
+ * fingerprints move apart. A distance rather than an angle, so flat spectra such as noise, whose
+ * fingerprints sit near zero, still compare sensibly.
+ * @param a MFCC frames of the first window
+ * @param b MFCC frames of the second window
+ */
+export const timbreSimilarity = (a: number[][], b: number[][]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const first = timbreFingerprint(a);
+  const second = timbreFingerprint(b);
+  const distance = Math.sqrt(first.reduce((sum, value, i) => sum + (value - second[i]) ** 2, 0));
+
+  return Math.exp(-distance / SIMILARITY_SCALE);
+};
+
+export class MelFilterbank {
+  /** Triangular weights per band, as [bin, weight] pairs */
+  private readonly filters: [number, number][][];
+
+  /**
+   * @param sampleRate Sample rate of the analysed signal in Hz
+   * @param fftSize FFT length that produced the spectrum; bin k is centred on k * sampleRate / fftSize
+   */
+  constructor(sampleRate: number, fftSize: number) {
+    const binWidth = sampleRate / fftSize;
+    const binCount = fftSize / 2;
+    const lowMel = toMel(LOWEST_HZ);
+    const highMel = toMel(Math.min(HIGHEST_HZ, sampleRate / 2));
+    const edges = Array.from({ length: MEL_BAND_COUNT + 2 }, (_, i) =>
+      fromMel(lowMel + ((highMel - lowMel) * i) / (MEL_BAND_COUNT + 1))
+    );
+
+    this.filters = Array.from({ length: MEL_BAND_COUNT }, (_, band) => {
+      const [low, centre, high] = edges.slice(band, band + 3);
+      const weights: [number, number][] = [];
+      for (let bin = Math.ceil(low / binWidth); bin <= Math.floor(high / binWidth) && bin < binCount; bin++) {
+        const hz = bin * binWidth;
+        const weight = hz <= centre ? (hz - low) / (centre - low) : (high - hz) / (high - centre);
+        if (weight > 0) weights.push([bin, weight]);
+      }
+      // Low bands can be narrower than a bin; they read the bin nearest their centre instead of nothing
+      return weights.length > 0 ? weights : [[Math.min(binCount - 1, Math.round(centre / binWidth)), 1]];
+    });
+  }
+
+  /**
+   * @param magnitudes Linear magnitude per bin, as summarizeSpectrum returns them
+   */
+  analyse(magnitudes: number[]): TimbreFrame {
+    const mel = this.filters.map(filter => {
+      let power = 0;
+      let total = 0;
+      for (const [bin, weight] of filter) {
+        power += weight * (magnitudes[bin] ?? 0) ** 2;
+        total += weight;
+      }
+      return toLevel(Math.sqrt(power / total));
+    });
+
+    const mfcc = DCT.map(row => row.reduce((sum, weight, band) => sum + weight * mel[band], 0));
+
+    return { mel, mfcc };
+  }
+}
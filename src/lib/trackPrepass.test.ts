@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { analyseTrack, AnalysisTrack, PrepassRequest, trackFrameAt, trackLookahead } from './trackPrepass';
+import { ANALYSIS_FRAME_LENGTH } from './analysisFrame';
+import { clickTimes, clickTrack, FFT_SIZE, HOP_SIZE, SAMPLE_RATE } from '@/test/signals';
+
+const SECONDS = 12;
+const BPM = 120;
+
+const request = (sensitivity = 1): PrepassRequest => {
+  const samples = clickTrack(BPM, SECONDS, 0.3);
+  return {
+    hash: 'clicks',
+    left: samples,
+    right: Float32Array.from(samples),
+    sampleRate: SAMPLE_RATE,
+    fftSize: FFT_SIZE,
+    hopSize: HOP_SIZE,
+    sensitivity
+  };
+};
+
+describe('analyseTrack', () => {
+  it('gives the same track every time it analyses the same samples', () => {
+    const first = analyseTrack(request());
+    const second = analyseTrack(request());
+
+    expect(second.frames).toEqual(first.frames);
+    expect(second.beats).toEqual(first.beats);
+    expect(second.sections).toEqual(first.sections);
+    expect(second.key).toEqual(first.key);
+  }, 60000);
+
+  it('holds a frame per hop and records the settings it ran with', () => {
+    const track = analyseTrack(request(0.8));
+
+    expect(track.frames.length).toBe(Math.floor((SECONDS * SAMPLE_RATE) / HOP_SIZE) * ANALYSIS_FRAME_LENGTH);
+    expect(track).toMatchObject({ hash: 'clicks', fftSize: FFT_SIZE, hopSize: HOP_SIZE, sensitivity: 0.8 });
+    expect(trackFrameAt(track, 5)).toHaveLength(ANALYSIS_FRAME_LENGTH);
+  }, 60000);
+
+  it('puts the beats of a click track on the clicks once the tempo has settled', () => {
+    const track = analyseTrack(request());
+    const clicks = clickTimes(BPM, SECONDS, 0.3);
+    const settled = track.beats.filter(beat => beat > 6 && beat < SECONDS - 1);
+    const errors = settled.map(beat => Math.min(...clicks.map(click => Math.abs(click - beat))));
+
+    expect(settled.length).toBeGreaterThanOrEqual(((SECONDS - 7) * BPM) / 60 - 1);
+    expect(Math.max(...errors)).toBeLessThan(0.02);
+  }, 60000);
+});
+
+describe('trackLookahead', () => {
+  /** Only the beats and sections matter to a lookahead */
+  const track = {
+    beats: [1, 1.5, 2, 2.5, 3],
+    sections: [
+      { index: 0, label: 'A', kind: 'intro', start: 0 },
+      { index: 1, label: 'B', kind: 'chorus', start: 2.2 }
+    ]
+  } as AnalysisTrack;
+
+  it('gives the beats coming up as seconds from now', () => {
+    expect(trackLookahead(track, 1.2, 1.3).beats.map(beat => Number(beat.toFixed(6)))).toEqual([0.3, 0.8, 1.3]);
+  });
+
+  it('gives the sections that start within the window', () => {
+    expect(trackLookahead(track, 1.2, 1.3).sections.map(section => section.label)).toEqual(['B']);
+    expect(trackLookahead(track, 1.2, 0.5).sections).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Track Pre-pass - Analyses a decoded file from start to end before it is heard
+ * Produces a time-indexed analysis track that playback reads instead of analysing live
+ */
+
+import { StereoChannels } from './audioSource';
+import { MusicBrain } from './musicBrain';
+import { ANALYSIS_FRAME_LENGTH, encodeAnalysis, writeSection } from './analysisFrame';
+import { dominantKey, MusicalKey } from './keyDetector';
+import { OfflineAnalyser } from './offlineAnalyser';
+import { Section, sectionAt } from './sectionSegmenter';
+
+/** Bumped whenever the analysis changes, so tracks cached by an older build are analysed again */
+export const ANALYSIS_TRACK_VERSION = 9;
+
+export interface AnalysisTrack {
+  version: number;
+  /** Hash of the file's bytes the track was analysed from; empty when it could not be hashed */
+  hash: string;
+  sampleRate: number;
+  fftSize: number;
+  hopSize: number;
+  /** Sensitivity the track was analysed at; the frames hold its gain, so another setting needs another pre-pass */
+  sensitivity: number;
+  /** Values per encoded frame, so a build that encodes frames differently can tell */
+  frameLength: number;
+  /** Encoded frames back to back, frameLength values each; frame i ends after i + 1 hops */
+  frames: Float32Array;
+  /** Seconds from the start of every tracked beat */
+  beats: number[];
+  sections: Section[];
+  /** Key that holds for most of the track */
+  key: MusicalKey;
+}
+
+export interface TrackLookahead {
+  /** Seconds until each beat in the window */
+  beats: number[];
+  /** Sections that start within the window */
+  sections: Section[];
+}
+
+export interface PrepassRequest {
+  hash: string;
+  left: Float32Array;
+  right: Float32Array;
+  sampleRate: number;
+  fftSize: number;
+  hopSize: number;
+  /** Gain on top of loudness normalization, as a linear factor, as MusicBrain.setSensitivity takes it */
+  sensitivity: number;
+}
+
+export interface PrepassResponse {
+  track: AnalysisTrack;
+}
+
+/** Left and right channels of a buffer, with mono copied to both sides as the analyser graph does */
+export const splitChannels = (buffer: AudioBuffer): { left: Float32Array; right: Float32Array } => ({
+  left: Float32Array.from(buffer.getChannelData(0)),
+  right: Float32Array.from(buffer.getChannelData(Math.min(1, buffer.numberOfChannels - 1)))
+});
+
+/** The `length` samples ending at `end`, zero before the track starts, as an analyser reads them */
+const windowEnding = (samples: Float32Array, end: number, length: number): number[] =>
+  Array.from({ length }, (_, i) => samples[end - length + i] ?? 0);
+
+/**
+ * Runs the Music Brain over every hop of a track, as live analysis would at the given sensitivity.
+ * The same samples and settings always give the same track.
+ */
+export const analyseTrack = ({ hash, left, right, sampleRate, fftSize, hopSize, sensitivity }: PrepassRequest): AnalysisTrack => {
+  const brain = new MusicBrain(sampleRate, fftSize, hopSize);
+  brain.setSensitivity(sensitivity);
+  const analyser = new OfflineAnalyser(fftSize);
+  const mono = Float32Array.from(left, (sample, i) => (sample + right[i]) / 2);
+  const count = Math.floor(mono.length / hopSize);
+  const frames = new Float32Array(count * ANALYSIS_FRAME_LENGTH);
+  const beats: number[] = [];
+  const keys: MusicalKey[] = [];
+  let lastBeatIndex = 0;
+  let predictedBeat = 0;
+
+  for (let i = 0; i < count; i++) {
+    const end = (i + 1) * hopSize;
+    const stereo: StereoChannels = { left: windowEnding(left, end, fftSize), right: windowEnding(right, end, fftSize) };
+    const { features, context } = brain.analyzeAudio(analyser.analyse(mono, end), windowEnding(mono, end, fftSize), stereo);
+    frames.set(encodeAnalysis(features, context), i * ANALYSIS_FRAME_LENGTH);
+
+    // A beat is counted a frame or two after it sounds; it goes down where the frames before predicted it
+    if (context.beatIndex > lastBeatIndex) {
+      lastBeatIndex = context.beatIndex;
+      beats.push(predictedBeat);
+    }
+    predictedBeat = end / sampleRate + context.nextBeatIn;
+    keys.push(context.key);
+  }
+
+  // Live frames only learn of a section seconds after it began; the finished track knows from the start
+  const sections = brain.finishSections();
+  let sectionIndex = -1;
+  for (let i = 0; i < count; i++) {
+    const section = sectionAt(sections, ((i + 1) * hopSize) / sampleRate);
+    writeSection(frames.subarray(i * ANALYSIS_FRAME_LENGTH, (i + 1) * ANALYSIS_FRAME_LENGTH), section, section.index !== sectionIndex && i > 0);
+    sectionIndex = section.index;
+  }
+
+  return {
+    version: ANALYSIS_TRACK_VERSION,
+    hash,
+    sampleRate,
+    fftSize,
+    hopSize,
+    sensitivity,
+    frameLength: ANALYSIS_FRAME_LENGTH,
+    frames,
+    beats,
+    sections,
+    key: dominantKey(keys)
+  };
+};
+
+/** Analysis frames per second of a track */
+export const trackFrameRate = (track: AnalysisTrack): number => track.sampleRate / track.hopSize;
+
+/** Copy of the encoded frame covering the audio up to a time in seconds */
+export const trackFrameAt = (track: AnalysisTrack, time: number): Float32Array => {
+  const count = track.frames.length / ANALYSIS_FRAME_LENGTH;
+  const index = Math.max(0, Math.min(count - 1, Math.floor(time * trackFrameRate(track)) - 1));
+  return track.frames.slice(index * ANALYSIS_FRAME_LENGTH, (index + 1) * ANALYSIS_FRAME_LENGTH);
+};
+
+/** Beats and section starts coming up in the next `seconds` after `time` */
+export const trackLookahead = (track: AnalysisTrack, time: number, seconds: number): TrackLookahead => ({
+  beats: track.beats.filter(beat => beat > time && beat <= time + seconds).map(beat => beat - time),
+  sections: track.sections.filter(section => section.start > time && section.start <= time + seconds)
+});
@@ -1,20 +1,107 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef, DragEvent } from "react";
 import { HeroSection } from "@/components/HeroSection";
 import { AudioVisualizer } from "@/components/AudioVisualizer";
 import { ControlPanel } from "@/components/ControlPanel";
+import { TransportBar } from "@/components/TransportBar";
+import { PlaylistPanel } from "@/components/PlaylistPanel";
 import { Button } from "@/components/ui/button";
-import { X, Minimize2 } from "lucide-react";
+import { X, Minimize2, ListMusic } from "lucide-react";
+import { useAudioFilePlayer } from "@/hooks/use-audio-file-player";
+import { useAudioSource } from "@/hooks/use-audio-source";
+import { usePlaylist } from "@/hooks/use-playlist";
+import { AudioSourceKind } from "@/lib/audioSource";
+import { HueMapping } from "@/lib/colorBrain";
+import { AudioFileSource } from "@/lib/fileSource";
+import { PlaylistEntry } from "@/lib/playlistStore";
+import { SimulatedSource } from "@/lib/simulatedSource";
+import { toast } from "@/hooks/use-toast";
 
 const Index = () => {
   const [isVisualizationActive, setIsVisualizationActive] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [showControls, setShowControls] = useState(false);
+  const [showPlaylist, setShowPlaylist] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   
   // Visualization settings
   const [intensity, setIntensity] = useState(1.0);
   const [sensitivity, setSensitivity] = useState(0.8);
+  const [analysisPrepared, setAnalysisPrepared] = useState(false);
   const [visualMode, setVisualMode] = useState<"sacred" | "cosmic" | "flow" | "pulse" | "trippy" | "ocean" | "neural" | "galaxy">("sacred");
+  const [hueMapping, setHueMapping] = useState<HueMapping>("genre");
+
+  // Audio input
+  const [audioSource, setAudioSource] = useState<AudioSourceKind>("microphone");
+  const [inputDeviceId, setInputDeviceId] = useState<string | undefined>(undefined);
+  const [streamUrl, setStreamUrl] = useState("");
+  const filePlayer = useAudioFilePlayer(() => handleTrackEnded());
+  const activeSource = useAudioSource(audioSource, {
+    mode: visualMode,
+    deviceId: inputDeviceId,
+    streamUrl,
+    fileSource: filePlayer.source,
+    onSourceEnded: () => {
+      setIsPlaying(false);
+      toast({
+        title: "Sharing stopped",
+        description: "Press play to share a tab or screen again."
+      });
+    }
+  });
+  const [previewSource] = useState(() => new SimulatedSource("cosmic"));
+
+  // Playlist
+  const playlist = usePlaylist();
+  const { getFile, setCurrent, updateEntry } = playlist;
+  const { loadFile, source: fileSource } = filePlayer;
+  const hasRestoredRef = useRef(false);
+
+  const loadEntry = useCallback(async (entry: PlaylistEntry, autoplay: boolean) => {
+    try {
+      await loadFile(await getFile(entry));
+      setCurrent(entry.id);
+      updateEntry(entry.id, { duration: fileSource.duration });
+
+      if (entry.settings) {
+        setVisualMode(entry.settings.mode);
+        setIntensity(entry.settings.intensity);
+        setSensitivity(entry.settings.sensitivity);
+      }
+
+      if (autoplay) {
+        setAudioSource("file");
+        setIsPlaying(true);
+        fileSource.play();
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not play this file",
+        description: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }, [getFile, loadFile, setCurrent, updateEntry, fileSource]);
+
+  const handleTrackEnded = () => {
+    const next = playlist.getNext(true);
+    if (next) {
+      loadEntry(next, true);
+    } else {
+      setIsPlaying(false);
+    }
+  };
+
+  const handleSkip = (direction: "previous" | "next") => {
+    const target = direction === "next" ? playlist.getNext(false) : playlist.getPrevious();
+    if (target) loadEntry(target, true);
+  };
+
+  // Bring back the track that was current before the last reload, without starting it
+  useEffect(() => {
+    if (hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+    if (playlist.currentEntry) loadEntry(playlist.currentEntry, false);
+  }, [playlist.currentEntry, loadEntry]);
 
   const handleStartVisualization = () => {
     setIsVisualizationActive(true);
@@ -42,6 +129,38 @@ const Index = () => {
     }
   };
 
+  const handleFilesSelect = async (files: File[]) => {
+    const supported = files.filter(file => AudioFileSource.isSupportedFile(file));
+    const rejected = files.filter(file => !supported.includes(file));
+
+    if (rejected.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Unsupported files skipped",
+        description: `${rejected.map(file => file.name).join(", ")} ${rejected.length === 1 ? "is" : "are"} not MP3, WAV, OGG or FLAC.`
+      });
+    }
+    if (supported.length === 0) return;
+
+    try {
+      const added = await playlist.addFiles(supported);
+      // Queue behind the current track when one is already playing, otherwise start right away
+      if (audioSource !== "file" || !isPlaying) loadEntry(added[0], true);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not add to playlist",
+        description: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault();
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) handleFilesSelect(files);
+  };
+
   const handleExitVisualization = () => {
     setIsVisualizationActive(false);
     setIsPlaying(false);
@@ -73,7 +192,11 @@ const Index = () => {
 
   if (isVisualizationActive) {
     return (
-      <div className="fixed inset-0 bg-background">
+      <div
+        className="fixed inset-0 bg-background"
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={handleDrop}
+      >
         {/* Exit controls */}
         <div className="absolute top-6 left-6 z-50 flex gap-2">
           <Button
@@ -84,6 +207,14 @@ const Index = () => {
           >
             <X className="h-4 w-4" />
           </Button>
+          <Button
+            variant="glass"
+            size="icon"
+            onClick={() => setShowPlaylist(!showPlaylist)}
+            className="shadow-glass"
+          >
+            <ListMusic className="h-4 w-4" />
+          </Button>
           {isFullscreen && (
             <Button
               variant="glass"
@@ -100,10 +231,40 @@ const Index = () => {
         <AudioVisualizer
           isPlaying={isPlaying}
           intensity={intensity}
+          sensitivity={sensitivity}
           mode={visualMode}
+          hueMapping={hueMapping}
+          source={activeSource}
+          onPreparedChange={setAnalysisPrepared}
           className="w-full h-full"
         />
 
+        {/* Current track */}
+        {audioSource === "file" && filePlayer.track && (
+          <div className="absolute top-6 left-1/2 -translate-x-1/2 max-w-md text-center pointer-events-none">
+            <p className="text-xs uppercase tracking-widest text-muted-foreground">Now playing</p>
+            <p className="text-lg font-semibold truncate">{filePlayer.track.name.replace(/\.[^.]+$/, "")}</p>
+          </div>
+        )}
+
+        {/* Playlist */}
+        <PlaylistPanel
+          entries={playlist.entries}
+          currentId={playlist.currentEntry?.id ?? null}
+          shuffle={playlist.shuffle}
+          repeat={playlist.repeat}
+          onSelect={(entry) => loadEntry(entry, true)}
+          onRemove={playlist.remove}
+          onMove={playlist.move}
+          onToggleShuffle={() => playlist.setShuffle(!playlist.shuffle)}
+          onCycleRepeat={playlist.cycleRepeat}
+          onToggleSettings={(entry) => playlist.rememberSettings(
+            entry.id,
+            entry.settings ? null : { mode: visualMode, intensity, sensitivity }
+          )}
+          isVisible={showPlaylist}
+        />
+
         {/* Control Panel */}
         <ControlPanel
           intensity={intensity}
@@ -112,9 +273,33 @@ const Index = () => {
           onModeChange={setVisualMode}
           sensitivity={sensitivity}
           onSensitivityChange={(value) => setSensitivity(value[0])}
+          sensitivityLocked={analysisPrepared}
+          hueMapping={hueMapping}
+          onHueMappingChange={setHueMapping}
+          source={audioSource}
+          onSourceChange={setAudioSource}
+          deviceId={inputDeviceId}
+          onDeviceChange={setInputDeviceId}
+          hasAudioFile={filePlayer.track !== null}
+          streamUrl={streamUrl}
+          onStreamUrlChange={setStreamUrl}
           isVisible={showControls}
         />
 
+        {/* File transport */}
+        <TransportBar
+          track={filePlayer.track}
+          currentTime={filePlayer.currentTime}
+          isPlaying={isPlaying}
+          isLoading={filePlayer.isLoading}
+          onTogglePlay={handleTogglePlay}
+          onSeek={filePlayer.seek}
+          onFilesSelect={handleFilesSelect}
+          onPrevious={() => handleSkip("previous")}
+          onNext={() => handleSkip("next")}
+          hasQueue={playlist.entries.length > 1}
+        />
+
         {/* Floating action button for controls */}
         {!showControls && (
           <Button
@@ -157,6 +342,7 @@ const Index = () => {
               isPlaying={true}
               intensity={0.8}
               mode="cosmic"
+              source={previewSource}
               className="w-full h-full"
             />
           </div>
@@ -0,0 +1,84 @@
+/**
+ * Test Signals - Synthesised audio for exercising the analysers without recordings
+ * Everything is deterministic, so tests that measure it always see the same samples
+ */
+
+import { OfflineAnalyser } from '@/lib/offlineAnalyser';
+
+export const SAMPLE_RATE = 44100;
+export const FFT_SIZE = 4096;
+export const HOP_SIZE = 1024;
+export const FRAME_RATE = SAMPLE_RATE / HOP_SIZE;
+
+/** Repeatable noise in -1 to 1 from a linear congruential generator */
+const noise = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 31 - 1;
+  };
+};
+
+/** Note frequency in Hz from its MIDI number, with A4 = 69 = 440 Hz */
+export const midiToHz = (note: number): number => 440 * 2 ** ((note - 69) / 12);
+
+/** Sines at the given frequencies, sharing out an amplitude so the mix peaks no higher */
+export const tones = (frequencies: number[], seconds: number, amplitude = 1): Float32Array => {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const each = amplitude / frequencies.length;
+  for (const hz of frequencies) {
+    for (let i = 0; i < samples.length; i++) samples[i] += each * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE);
+  }
+  return samples;
+};
+
+/** White noise, the same samples every time */
+export const whiteNoise = (seconds: number, amplitude = 0.5): Float32Array => {
+  const random = noise(2);
+  return Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, () => amplitude * random());
+};
+
+/** Tracks one after another */
+export const concat = (...parts: Float32Array[]): Float32Array => {
+  const joined = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => {
+    joined.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return joined;
+};
+
+/** Tracks played together, sample by sample */
+export const mix = (...parts: Float32Array[]): Float32Array => {
+  const mixed = new Float32Array(Math.max(...parts.map(part => part.length)));
+  for (const part of parts) part.forEach((sample, i) => (mixed[i] += sample));
+  return mixed;
+};
+
+/** Seconds at which each click of a click track starts */
+export const clickTimes = (bpm: number, seconds: number, offset = 0): number[] =>
+  Array.from({ length: Math.floor(((seconds - offset) * bpm) / 60) }, (_, i) => offset + (i * 60) / bpm);
+
+/** Metronome of short decaying noise bursts */
+export const clickTrack = (bpm: number, seconds: number, offset = 0, amplitude = 0.8): Float32Array => {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const random = noise(1);
+  const decay = 0.01 * SAMPLE_RATE;
+
+  for (const time of clickTimes(bpm, seconds, offset)) {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < 4 * decay && start + i < samples.length; i++) {
+      samples[start + i] = amplitude * random() * Math.exp(-i / decay);
+    }
+  }
+  return samples;
+};
+
+/** Spectra of successive hops as a live analyser would report them, each paired with the hop's end in seconds */
+export const spectra = (samples: Float32Array, fftSize = FFT_SIZE): { time: number; spectrum: number[] }[] => {
+  const analyser = new OfflineAnalyser(fftSize);
+  return Array.from({ length: Math.floor(samples.length / HOP_SIZE) }, (_, i) => {
+    const end = (i + 1) * HOP_SIZE;
+    return { time: end / SAMPLE_RATE, spectrum: analyser.analyse(samples, end) };
+  });
+};
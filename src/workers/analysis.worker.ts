@@ -0,0 +1,44 @@
+/**
+ * Analysis Worker - Runs the Music Brain off the main thread
+ * Receives one spectrum and waveform per hop and answers with an encoded feature frame
+ */
+
+import { MusicBrain } from '@/lib/musicBrain';
+import { AnalysisRequest, AnalysisResponse, encodeAnalysis } from '@/lib/analysisFrame';
+
+let brain = new MusicBrain();
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'configure') {
+    brain = new MusicBrain(request.sampleRate, request.fftSize, request.hopSize);
+    return;
+  }
+
+  if (request.type === 'tap') {
+    brain.tap(request.bpm);
+    return;
+  }
+
+  if (request.type === 'sensitivity') {
+    brain.setSensitivity(request.sensitivity);
+    return;
+  }
+
+  if (request.type === 'envelopes') {
+    brain.setEnvelopes(request.overrides);
+    return;
+  }
+
+  const stereo = request.stereo && { left: Array.from(request.stereo.left), right: Array.from(request.stereo.right) };
+  const { features, context } = brain.analyzeAudio(Array.from(request.spectrum), Array.from(request.waveform), stereo);
+  const response: AnalysisResponse = {
+    type: 'frame',
+    session: request.session,
+    spectrum: request.spectrum,
+    frame: encodeAnalysis(features, context)
+  };
+
+  self.postMessage(response, { transfer: [response.spectrum.buffer, response.frame.buffer] });
+};
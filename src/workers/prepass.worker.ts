@@ -0,0 +1,11 @@
+/**
+ * Pre-pass Worker - Analyses a whole decoded track ahead of playback
+ * Runs apart from the live analysis worker so a long pre-pass never holds up live frames
+ */
+
+import { analyseTrack, PrepassRequest, PrepassResponse } from '@/lib/trackPrepass';
+
+self.onmessage = (event: MessageEvent<PrepassRequest>) => {
+  const response: PrepassResponse = { track: analyseTrack(event.data) };
+  self.postMessage(response, { transfer: [response.track.frames.buffer] });
+};